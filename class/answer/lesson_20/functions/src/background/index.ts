@@ -1,6 +1,15 @@
 import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
-import { NotificationService } from '../notifications/notification-service';
+import { NotificationType } from '../types';
+import { notificationService } from '../notifications/notification-service';
+import { removeStaleDevices } from '../notifications/device-functions';
+import { processPendingNotifications } from '../notifications/notification-queue';
+import { deleteExpiredEvents } from '../utils/event-ledger';
+import { rollUpShardedCounters } from '../social/post-counters';
+
+const REENGAGEMENT_INACTIVE_DAYS = 7;
+const REENGAGEMENT_PAGE_SIZE = 500;
+const REENGAGEMENT_BATCH_SIZE = 100;
 
 /**
  * Daily cleanup tasks - runs every day at 2 AM UTC
@@ -28,7 +37,7 @@ export const dailyCleanup = functions.pubsub
       await cleanupInvalidTokens();
       
       // Process scheduled notifications
-      await NotificationService.processScheduledNotifications();
+      await notificationService.processScheduledNotifications();
       
       console.log('Daily cleanup completed successfully');
     } catch (error) {
@@ -108,11 +117,11 @@ export const processNotificationQueue = functions.pubsub
     try {
       console.log('Processing notification queue');
       
-      // Process pending notifications
+      // Process pending notifications (retries with backoff, then dead-letters)
       await processPendingNotifications();
       
       // Process scheduled notifications
-      await NotificationService.processScheduledNotifications();
+      await notificationService.processScheduledNotifications();
       
       console.log('Notification queue processing completed');
     } catch (error) {
@@ -120,8 +129,104 @@ export const processNotificationQueue = functions.pubsub
     }
   });
 
+/**
+ * Re-engagement reminders - runs every day at 6 PM UTC. Users get one
+ * reminder on the day they pass REENGAGEMENT_INACTIVE_DAYS without being seen.
+ * The copy goes through the reminder_reengagement experiment.
+ */
+export const sendReengagementReminders = functions.pubsub
+  .schedule('0 18 * * *')
+  .timeZone('UTC')
+  .onRun(async (context) => {
+    try {
+      const reminded = await remindInactiveUsers();
+      console.log(`Sent re-engagement reminders to ${reminded} users`);
+    } catch (error) {
+      console.error('Re-engagement reminders failed:', error);
+    }
+  });
+
+/**
+ * Remove expired entries from the trigger event ledger - runs every hour
+ */
+export const cleanupProcessedEvents = functions.pubsub
+  .schedule('30 * * * *')
+  .timeZone('UTC')
+  .onRun(async (context) => {
+    try {
+      const deletedCount = await deleteExpiredEvents();
+      console.log(`Deleted ${deletedCount} expired processed events`);
+    } catch (error) {
+      console.error('Processed events cleanup failed:', error);
+    }
+  });
+
+/**
+ * Roll sharded post counters up onto their posts - runs every minute
+ */
+export const rollUpPostCounters = functions.pubsub
+  .schedule('* * * * *')
+  .timeZone('UTC')
+  .onRun(async (context) => {
+    try {
+      const rolledUp = await rollUpShardedCounters();
+      if (rolledUp > 0) {
+        console.log(`Rolled up sharded counters for ${rolledUp} posts`);
+      }
+    } catch (error) {
+      console.error('Sharded counter rollup failed:', error);
+    }
+  });
+
 // Helper functions
 
+async function remindInactiveUsers(): Promise<number> {
+  const dayMs = 24 * 60 * 60 * 1000;
+  const windowEnd = admin.firestore.Timestamp.fromMillis(Date.now() - REENGAGEMENT_INACTIVE_DAYS * dayMs);
+  const windowStart = admin.firestore.Timestamp.fromMillis(windowEnd.toMillis() - dayMs);
+  let reminded = 0;
+  let lastDoc: admin.firestore.QueryDocumentSnapshot | null = null;
+  
+  while (true) {
+    let query = admin.firestore()
+      .collection('users')
+      .where('lastSeenAt', '>=', windowStart)
+      .where('lastSeenAt', '<', windowEnd)
+      .orderBy('lastSeenAt')
+      .limit(REENGAGEMENT_PAGE_SIZE);
+    
+    if (lastDoc) {
+      query = query.startAfter(lastDoc);
+    }
+    
+    const snapshot = await query.get();
+    const userIds = snapshot.docs
+      .filter(doc => doc.data().isActive !== false)
+      .map(doc => doc.id);
+    
+    for (let i = 0; i < userIds.length; i += REENGAGEMENT_BATCH_SIZE) {
+      // No explicit copy, so the experiment picks the catalog message
+      const results = await Promise.allSettled(
+        userIds.slice(i, i + REENGAGEMENT_BATCH_SIZE).map(userId =>
+          notificationService.sendNotificationToUser({
+            targetUserId: userId,
+            type: NotificationType.REMINDER,
+            messageKey: 'reengagement',
+            data: { action: 'explore_app' },
+            priority: 'normal',
+          })
+        )
+      );
+      reminded += results.filter(result => result.status === 'fulfilled').length;
+    }
+    
+    if (snapshot.size < REENGAGEMENT_PAGE_SIZE) {
+      return reminded;
+    }
+    lastDoc = snapshot.docs[snapshot.size - 1];
+  }
+}
+
 async function cleanupExpiredNotifications(): Promise<void> {
   try {
     const thirtyDaysAgo = new Date();
@@ -131,14 +236,27 @@ async function cleanupExpiredNotifications(): Promise<void> {
     const expiredNotificationsSnapshot = await admin.firestore()
       .collectionGroup('notifications')
       .where('createdAt', '<', admin.firestore.Timestamp.fromDate(thirtyDaysAgo))
-      .limit(500) // Process in batches
+      .limit(250) // Process in batches (plus one unread count write per user)
       .get();
     
     if (!expiredNotificationsSnapshot.empty) {
       const batch = admin.firestore().batch();
+      const expiredUnreadByUser: Record<string, number> = {};
       
       expiredNotificationsSnapshot.docs.forEach(doc => {
         batch.delete(doc.ref);
+        
+        const userId = doc.ref.parent.parent?.id;
+        if (userId && doc.data().isRead === false) {
+          expiredUnreadByUser[userId] = (expiredUnreadByUser[userId] || 0) + 1;
+        }
+      });
+      
+      // Keep unread counts in step with the records being removed
+      Object.entries(expiredUnreadByUser).forEach(([userId, count]) => {
+        batch.set(admin.firestore().collection('users').doc(userId), {
+          unreadCount: admin.firestore.FieldValue.increment(-count),
+        }, { merge: true });
       });
       
       await batch.commit();
@@ -289,72 +407,21 @@ async function updateDailyStatistics(): Promise<void> {
 
 async function cleanupInvalidTokens(): Promise<void> {
   try {
-    // This would typically use FCM token validation
-    // For now, we'll remove tokens that are too old
-    const oneMonthAgo = new Date();
-    oneMonthAgo.setMonth(oneMonthAgo.getMonth() - 1);
+    // Devices that have not checked in for two months are assumed gone;
+    // invalid tokens are also removed as soon as FCM rejects them
+    const twoMonthsAgo = new Date();
+    twoMonthsAgo.setMonth(twoMonthsAgo.getMonth() - 2);
     
-    const usersSnapshot = await admin.firestore()
-      .collection('users')
-      .where('lastTokenUpdate', '<', admin.firestore.Timestamp.fromDate(oneMonthAgo))
-      .limit(100)
-      .get();
+    const removedCount = await removeStaleDevices(twoMonthsAgo);
     
-    if (!usersSnapshot.empty) {
-      const batch = admin.firestore().batch();
-      
-      usersSnapshot.docs.forEach(doc => {
-        batch.update(doc.ref, {
-          fcmTokens: [],
-          lastTokenCleanup: admin.firestore.FieldValue.serverTimestamp(),
-        });
-      });
-      
-      await batch.commit();
-      console.log(`Cleaned up tokens for ${usersSnapshot.size} users`);
+    if (removedCount > 0) {
+      console.log(`Removed ${removedCount} stale devices`);
     }
   } catch (error) {
     console.error('Failed to cleanup invalid tokens:', error);
   }
 }
 
-async function processPendingNotifications(): Promise<void> {
-  try {
-    // Process notifications that failed to send
-    const pendingNotificationsSnapshot = await admin.firestore()
-      .collection('pendingNotifications')
-      .where('status', '==', 'pending')
-      .limit(50)
-      .get();
-    
-    for (const doc of pendingNotificationsSnapshot.docs) {
-      const notificationData = doc.data();
-      
-      try {
-        await NotificationService.sendNotificationToUser(notificationData);
-        
-        // Mark as completed
-        await doc.ref.update({
-          status: 'completed',
-          completedAt: admin.firestore.FieldValue.serverTimestamp(),
-        });
-      } catch (error) {
-        // Mark as failed
-        await doc.ref.update({
-          status: 'failed',
-          failedAt: admin.firestore.FieldValue.serverTimestamp(),
-          error: error instanceof Error ? error.message : String(error),
-          retryCount: admin.firestore.FieldValue.increment(1),
-        });
-      }
-    }
-    
-    console.log(`Processed ${pendingNotificationsSnapshot.size} pending notifications`);
-  } catch (error) {
-    console.error('Failed to process pending notifications:', error);
-  }
-}
-
 async function generateWeeklyUserAnalytics(): Promise<void> {
   try {
     const oneWeekAgo = new Date();
@@ -497,11 +564,10 @@ async function sendWeeklyReportsToAdmins(): Promise<void> {
     
     // Send notifications to admins
     const promises = adminsSnapshot.docs.map(doc =>
-      NotificationService.sendNotificationToUser({
+      notificationService.sendNotificationToUser({
         targetUserId: doc.id,
         type: 'system_alert' as any,
-        title: '📊 Weekly Report Available',
-        body: `Weekly analytics report is ready for review`,
+        messageKey: 'weekly_report',
         data: {
           reportType: 'weekly_analytics',
           reportData: reportData,
@@ -584,12 +650,12 @@ async function sendAdminAlert(title: string, error: any): Promise<void> {
       .get();
     
     const promises = adminsSnapshot.docs.map(doc =>
-      NotificationService.sendNotificationToUser({
+      notificationService.sendNotificationToUser({
         targetUserId: doc.id,
         type: 'system_alert' as any,
-        title: `🚨 ${title}`,
-        body: `System alert: ${error instanceof Error ? error.message : String(error)}`,
+        messageKey: 'admin_alert',
         data: {
+          alertTitle: title,
           alertType: 'system_error',
           error: error instanceof Error ? error.message : String(error),
         },
@@ -0,0 +1,231 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { NotificationActionId } from '../types';
+import { requireAuth, createSuccessResponse } from '../utils/auth';
+import { isValidFirebaseDocumentId } from '../utils/validation';
+import { markInboxRecordRead } from './inbox-functions';
+
+const MAX_REPLY_LENGTH = 1000;
+
+/**
+ * Reply to a chat from a NEW_MESSAGE notification's reply action. The message
+ * trigger (onChatMessageCreate) updates the chat and notifies the others.
+ */
+export const replyFromNotification = functions.https.onCall(async (data, context) => {
+  const uid = requireAuth(context);
+  const chatId = requireId(data?.chatId, 'chatId');
+  // Messages are stored as plain text and escaped by whatever renders them
+  const text = typeof data?.text === 'string' ? data.text.trim() : '';
+
+  if (!text || text.length > MAX_REPLY_LENGTH) {
+    throw new functions.https.HttpsError(
+      'invalid-argument',
+      `text must be between 1 and ${MAX_REPLY_LENGTH} characters`
+    );
+  }
+
+  try {
+    const chatRef = admin.firestore().collection('chats').doc(chatId);
+    const messageRef = chatRef.collection('messages').doc();
+
+    await admin.firestore().runTransaction(async (transaction) => {
+      const chatDoc = await transaction.get(chatRef);
+      if (!chatDoc.exists) {
+        throw new functions.https.HttpsError('not-found', 'Chat not found');
+      }
+      if (!(chatDoc.data()!.participants || []).includes(uid)) {
+        throw new functions.https.HttpsError('permission-denied', 'Not a participant of this chat');
+      }
+
+      transaction.create(messageRef, {
+        senderId: uid,
+        text,
+        source: 'notification_action',
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+
+    await completeNotificationAction(uid, data?.notificationId, 'reply');
+
+    console.log(`User ${uid} replied to chat ${chatId} from a notification`);
+    return createSuccessResponse({ chatId, messageId: messageRef.id });
+  } catch (error) {
+    if (error instanceof functions.https.HttpsError) throw error;
+    console.error(`Failed to reply to chat ${chatId} for ${uid}:`, error);
+    throw new functions.https.HttpsError('internal', 'Failed to send reply');
+  }
+});
+
+/**
+ * Follow back a new follower from the notification's follow back action.
+ * The follows trigger updates counts and notifies them as for any follow.
+ * An inactive follow from before is reactivated; it was never uncounted.
+ */
+export const followBackFromNotification = functions.https.onCall(async (data, context) => {
+  const uid = requireAuth(context);
+  const userId = requireId(data?.userId, 'userId');
+
+  if (userId === uid) {
+    throw new functions.https.HttpsError('invalid-argument', 'Cannot follow yourself');
+  }
+
+  try {
+    const followsRef = admin.firestore().collection('follows');
+
+    // Reverse follow: only their own followers can be followed back
+    const [reverseSnapshot, existingSnapshot] = await Promise.all([
+      followsRef
+        .where('followerId', '==', userId)
+        .where('followingId', '==', uid)
+        .where('isActive', '==', true)
+        .limit(1)
+        .get(),
+      followsRef
+        .where('followerId', '==', uid)
+        .where('followingId', '==', userId)
+        .get(),
+    ]);
+
+    if (reverseSnapshot.empty) {
+      throw new functions.https.HttpsError('failed-precondition', 'This user does not follow you');
+    }
+
+    const existingDoc = existingSnapshot.docs.find(doc => doc.data().isActive) || existingSnapshot.docs[0];
+    let alreadyFollowing = existingDoc?.data().isActive === true;
+    if (existingDoc && !alreadyFollowing) {
+      await existingDoc.ref.update({
+        isActive: true,
+        reactivatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    } else if (!existingDoc) {
+      try {
+        // Fixed ID so a repeated tap cannot create a second follow
+        await followsRef.doc(`${uid}_${userId}`).create({
+          followerId: uid,
+          followingId: userId,
+          isActive: true,
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      } catch (error: any) {
+        if (error?.code !== 6) throw error; // ALREADY_EXISTS
+        alreadyFollowing = true;
+      }
+    }
+
+    await completeNotificationAction(uid, data?.notificationId, 'follow_back');
+
+    console.log(`User ${uid} followed back ${userId} from a notification`);
+    return createSuccessResponse({ userId, alreadyFollowing });
+  } catch (error) {
+    if (error instanceof functions.https.HttpsError) throw error;
+    console.error(`Failed to follow back ${userId} for ${uid}:`, error);
+    throw new functions.https.HttpsError('internal', 'Failed to follow back');
+  }
+});
+
+/**
+ * Accept a friend request from the notification's accept action
+ */
+export const acceptFriendRequest = functions.https.onCall(async (data, context) => {
+  const uid = requireAuth(context);
+  const requestId = requireId(data?.requestId, 'requestId');
+
+  try {
+    await respondToFriendRequest(uid, requestId, 'accepted');
+    await completeNotificationAction(uid, data?.notificationId, 'accept');
+
+    console.log(`User ${uid} accepted friend request ${requestId}`);
+    return createSuccessResponse({ requestId, status: 'accepted' });
+  } catch (error) {
+    if (error instanceof functions.https.HttpsError) throw error;
+    console.error(`Failed to accept friend request ${requestId} for ${uid}:`, error);
+    throw new functions.https.HttpsError('internal', 'Failed to accept friend request');
+  }
+});
+
+/**
+ * Decline a friend request from the notification's decline action
+ */
+export const declineFriendRequest = functions.https.onCall(async (data, context) => {
+  const uid = requireAuth(context);
+  const requestId = requireId(data?.requestId, 'requestId');
+
+  try {
+    await respondToFriendRequest(uid, requestId, 'declined');
+    await completeNotificationAction(uid, data?.notificationId, 'decline');
+
+    console.log(`User ${uid} declined friend request ${requestId}`);
+    return createSuccessResponse({ requestId, status: 'declined' });
+  } catch (error) {
+    if (error instanceof functions.https.HttpsError) throw error;
+    console.error(`Failed to decline friend request ${requestId} for ${uid}:`, error);
+    throw new functions.https.HttpsError('internal', 'Failed to decline friend request');
+  }
+});
+
+// Helper functions
+
+function requireId(value: any, field: string): string {
+  if (!value || typeof value !== 'string' || !isValidFirebaseDocumentId(value)) {
+    throw new functions.https.HttpsError('invalid-argument', `Missing or invalid ${field}`);
+  }
+  return value;
+}
+
+/**
+ * Answer a pending request addressed to the caller. Answering again with the
+ * same response is a no-op, so a retried action succeeds.
+ */
+async function respondToFriendRequest(
+  uid: string,
+  requestId: string,
+  status: 'accepted' | 'declined'
+): Promise<void> {
+  const requestRef = admin.firestore().collection('friendRequests').doc(requestId);
+
+  await admin.firestore().runTransaction(async (transaction) => {
+    const requestDoc = await transaction.get(requestRef);
+    if (!requestDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Friend request not found');
+    }
+
+    const request = requestDoc.data()!;
+    if (request.recipientId !== uid) {
+      throw new functions.https.HttpsError('permission-denied', 'Not your friend request');
+    }
+    if (request.status === status) {
+      return;
+    }
+    if (request.status !== 'pending') {
+      throw new functions.https.HttpsError('failed-precondition', `Friend request already ${request.status}`);
+    }
+
+    transaction.update(requestRef, {
+      status,
+      respondedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+}
+
+/**
+ * Mark the notification the action came from as read and record the action.
+ * Best effort: the action itself already succeeded.
+ */
+async function completeNotificationAction(
+  uid: string,
+  notificationId: any,
+  action: NotificationActionId
+): Promise<void> {
+  if (!notificationId || typeof notificationId !== 'string') {
+    return;
+  }
+
+  try {
+    await markInboxRecordRead(uid, notificationId, {
+      actionTaken: action,
+      actedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  } catch (error) {
+    console.error(`Failed to record ${action} on notification ${notificationId} for ${uid}:`, error);
+  }
+}
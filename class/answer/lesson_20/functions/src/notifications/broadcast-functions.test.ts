@@ -0,0 +1,121 @@
+import * as path from 'path';
+import { firestoreWrites } from '../testing/firestore-fake';
+import { DeviceData, NotificationType } from '../types';
+import { buildBroadcastNotification } from './broadcast-functions';
+import { getLegacyTokens, getUserDevices } from './device-functions';
+import { InMemoryMessagingProvider } from './messaging-provider';
+import { NotificationService } from './notification-service';
+
+// An empty Firestore, so the service falls back to its defaults (allow,
+// English, no quiet hours)
+jest.mock('firebase-admin', () => require('../testing/firestore-fake').mockFirebaseAdmin());
+
+jest.mock('./device-functions', () => ({
+  getUserDevices: jest.fn(),
+  getLegacyTokens: jest.fn(),
+  removeDevicesByTokens: jest.fn(),
+}));
+
+// The Admin SDK's own pre-send validation; not exported, so loaded by path
+const { validateMessage } = require(
+  path.join(path.dirname(require.resolve('firebase-admin')), 'messaging', 'messaging-internal')
+);
+
+const device = { id: 'device1', token: 'fcm-token-a', platform: 'android' } as DeviceData;
+
+describe('broadcast notifications', () => {
+  let provider: InMemoryMessagingProvider;
+  let service: NotificationService;
+
+  beforeEach(() => {
+    provider = new InMemoryMessagingProvider();
+    service = new NotificationService({ fcm: provider });
+    firestoreWrites.length = 0;
+    (getUserDevices as jest.Mock).mockResolvedValue([device]);
+    (getLegacyTokens as jest.Mock).mockResolvedValue([]);
+
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it.each([NotificationType.SYSTEM_ALERT, NotificationType.REMINDER])(
+    'sends a valid %s push with the admin copy as plain text',
+    async (type) => {
+      const notification = buildBroadcastNotification('user1', {
+        type,
+        title: 'Tonight\'s update',
+        body: 'Q&A with the team at 8pm <live>',
+        priority: 'normal',
+      }, 'broadcast1');
+
+      const result = await service.sendNotificationToUser(notification);
+
+      expect(result.status).toBe('sent');
+      expect(provider.sent).toHaveLength(1);
+
+      const { message, tokens } = provider.sent[0];
+      expect(tokens).toEqual(['fcm-token-a']);
+      expect(message.notification).toEqual({
+        title: 'Tonight\'s update',
+        body: 'Q&A with the team at 8pm <live>',
+      });
+      expect(message.data).toMatchObject({ type, broadcastId: 'broadcast1' });
+      expect(firestoreWrites.map(write => write.path)).toContain(`users/user1/notifications/${message.data!.notificationId}`);
+      expect(Object.values(message.data!).every(value => typeof value === 'string')).toBe(true);
+      expect(() => validateMessage({ ...message, token: 'fcm-token-a' })).not.toThrow();
+    }
+  );
+
+  it('keeps the broadcast in the inbox for users without devices', async () => {
+    (getUserDevices as jest.Mock).mockResolvedValue([]);
+    const notification = buildBroadcastNotification('user1', {
+      type: NotificationType.SYSTEM_ALERT,
+      title: 'Maintenance',
+      body: 'Back soon',
+      priority: 'normal',
+    }, 'broadcast1');
+
+    const result = await service.sendNotificationToUser(notification);
+
+    expect(result.status).toBe('no_devices');
+    expect(provider.sent).toHaveLength(0);
+  });
+
+  it('sends broadcasts in batches and counts deferred recipients as deferred', async () => {
+    jest.spyOn(service as any, 'getQuietHoursEnd')
+      .mockImplementation(async (data: any) => data.targetUserId === 'user2' ? new Date('2026-01-11T01:00:00Z') : null);
+    const content = { type: NotificationType.SYSTEM_ALERT, title: 'Maintenance', body: 'Back soon', priority: 'normal' as const };
+
+    const result = await service.sendBulkNotifications(
+      ['user1', 'user2', 'user3'].map(userId => buildBroadcastNotification(userId, content, 'broadcast1')),
+      2
+    );
+
+    expect(result).toMatchObject({
+      totalSent: 2,
+      totalFailed: 0,
+      devicesReached: 2,
+      statuses: { sent: 2, deferred_by_quiet_hours: 1 },
+    });
+    expect(provider.sent).toHaveLength(2);
+    expect(firestoreWrites.some(write => write.path.startsWith('scheduledNotifications/'))).toBe(true);
+  });
+
+  it('also reaches tokens older apps keep in fcmTokens', async () => {
+    (getLegacyTokens as jest.Mock).mockResolvedValue(['fcm-token-a', 'legacy-token']);
+    const notification = buildBroadcastNotification('user1', {
+      type: NotificationType.SYSTEM_ALERT,
+      title: 'Maintenance',
+      body: 'Back soon',
+      priority: 'normal',
+    }, 'broadcast1');
+
+    const result = await service.sendNotificationToUser(notification);
+
+    expect(result.status).toBe('sent');
+    expect(provider.sent[0].tokens).toEqual(['fcm-token-a', 'legacy-token']);
+  });
+});
@@ -0,0 +1,324 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import {
+  BroadcastAudienceFilter,
+  DevicePlatform,
+  NotificationData,
+  NotificationType,
+} from '../types';
+import { requireAuthAndRole, createSuccessResponse } from '../utils/auth';
+import { notificationService } from './notification-service';
+
+const AUDIENCE_PAGE_SIZE = 500;
+const AUDIENCE_SAMPLE_SIZE = 20;
+const MAX_BROADCAST_RECIPIENTS = 10000;
+const BROADCAST_TYPES = [NotificationType.SYSTEM_ALERT, NotificationType.REMINDER];
+const VALID_PLATFORMS: DevicePlatform[] = ['ios', 'android', 'web'];
+
+// Throttle: 100 users per batch, one batch per second
+const BROADCAST_BATCH_SIZE = 100;
+const BROADCAST_BATCH_DELAY_MS = 1000;
+
+interface AudienceMember {
+  id: string;
+  displayName: string;
+  language: string | null;
+}
+
+export interface BroadcastContent {
+  type: NotificationType;
+  title: string;
+  body: string;
+  priority: 'high' | 'normal';
+}
+
+/**
+ * Send a notification to every user matching an audience filter (admin only).
+ * With dryRun: true nothing is sent; the audience count and a sample are returned.
+ */
+export const broadcastNotification = functions
+  .runWith({ timeoutSeconds: 540, memory: '1GB' })
+  .https.onCall(async (data, context) => {
+    const uid = await requireAuthAndRole(context, 'admin');
+    const filter = parseAudienceFilter(data?.audience);
+    const dryRun = data?.dryRun === true;
+    const type: NotificationType = data?.type || NotificationType.SYSTEM_ALERT;
+
+    if (!BROADCAST_TYPES.includes(type)) {
+      throw new functions.https.HttpsError(
+        'invalid-argument',
+        `Broadcast type must be one of: ${BROADCAST_TYPES.join(', ')}`
+      );
+    }
+
+    // Plain text; the apps and email escape it when rendering
+    const title = typeof data?.title === 'string' ? data.title.trim() : '';
+    const body = typeof data?.body === 'string' ? data.body.trim() : '';
+
+    if (!dryRun && (!title || !body)) {
+      throw new functions.https.HttpsError('invalid-argument', 'Missing required fields: title, body');
+    }
+
+    if (title.length > 100 || body.length > 250) {
+      throw new functions.https.HttpsError('invalid-argument', 'title or body too long');
+    }
+
+    try {
+      if (dryRun) {
+        const audience = await findAudience(filter, null);
+        return createSuccessResponse({
+          dryRun: true,
+          audienceCount: audience.count,
+          sample: audience.members.slice(0, AUDIENCE_SAMPLE_SIZE),
+        });
+      }
+
+      const audience = await findAudience(filter, MAX_BROADCAST_RECIPIENTS + 1);
+      if (audience.count > MAX_BROADCAST_RECIPIENTS) {
+        throw new functions.https.HttpsError(
+          'failed-precondition',
+          `Audience exceeds ${MAX_BROADCAST_RECIPIENTS} users; narrow the filter`
+        );
+      }
+
+      const broadcastRef = admin.firestore().collection('broadcasts').doc();
+      await broadcastRef.set({
+        createdBy: uid,
+        audience: filter,
+        type,
+        title,
+        body,
+        audienceCount: audience.count,
+        status: 'sending',
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      const content: BroadcastContent = {
+        type,
+        title,
+        body,
+        priority: data.priority === 'high' ? 'high' : 'normal',
+      };
+
+      try {
+        const result = await notificationService.sendBulkNotifications(
+          audience.members.map(member => buildBroadcastNotification(member.id, content, broadcastRef.id)),
+          BROADCAST_BATCH_SIZE,
+          BROADCAST_BATCH_DELAY_MS
+        );
+        const { totalSent, totalFailed } = result;
+
+        // Skipped users (opted out, muted, deferred) still count as a completed send
+        await broadcastRef.update({
+          status: audience.count > 0 && totalFailed === audience.count ? 'failed' : 'completed',
+          totalSent,
+          totalFailed,
+          statuses: result.statuses,
+          devicesReached: result.devicesReached,
+          devicesFailed: result.devicesFailed,
+          errorSample: result.errors.slice(0, AUDIENCE_SAMPLE_SIZE),
+          completedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+        console.log(`Broadcast ${broadcastRef.id} by ${uid}: ${totalSent}/${audience.count} users`);
+        return createSuccessResponse({
+          dryRun: false,
+          broadcastId: broadcastRef.id,
+          audienceCount: audience.count,
+          totalSent,
+          totalFailed,
+          statuses: result.statuses,
+          devicesReached: result.devicesReached,
+        });
+      } catch (error) {
+        await broadcastRef.update({
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+          failedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        throw error;
+      }
+    } catch (error) {
+      if (error instanceof functions.https.HttpsError) throw error;
+      console.error(`Broadcast by ${uid} failed:`, error);
+      throw new functions.https.HttpsError('internal', 'Failed to broadcast notification');
+    }
+  });
+
+/**
+ * The notification one recipient gets. sendBulkNotifications sends it like
+ * any other notification, so the recipient's `system` opt-out, mutes, quiet
+ * hours and inbox all apply.
+ */
+export function buildBroadcastNotification(
+  targetUserId: string,
+  content: BroadcastContent,
+  broadcastId: string
+): NotificationData {
+  return {
+    targetUserId,
+    type: content.type,
+    title: content.title,
+    body: content.body,
+    data: { broadcastId },
+    priority: content.priority,
+  };
+}
+
+// Helper functions
+
+function parseAudienceFilter(audience: any): BroadcastAudienceFilter {
+  const filter: BroadcastAudienceFilter = {};
+  if (!audience) {
+    return filter;
+  }
+
+  const invalid = (message: string) => new functions.https.HttpsError('invalid-argument', message);
+  const isStringList = (value: any) =>
+    Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'string');
+
+  if (audience.languages !== undefined) {
+    if (!isStringList(audience.languages) || audience.languages.length > 30) {
+      throw invalid('languages must be a list of up to 30 language codes');
+    }
+    filter.languages = audience.languages;
+  }
+
+  if (audience.interests !== undefined) {
+    if (!isStringList(audience.interests) || audience.interests.length > 30) {
+      throw invalid('interests must be a list of up to 30 interests');
+    }
+    filter.interests = audience.interests;
+  }
+
+  if (audience.platforms !== undefined) {
+    if (!isStringList(audience.platforms) ||
+        audience.platforms.some((platform: any) => !VALID_PLATFORMS.includes(platform))) {
+      throw invalid(`platforms must be a list of: ${VALID_PLATFORMS.join(', ')}`);
+    }
+    filter.platforms = audience.platforms;
+  }
+
+  if (audience.isVerified !== undefined) {
+    if (typeof audience.isVerified !== 'boolean') {
+      throw invalid('isVerified must be a boolean');
+    }
+    filter.isVerified = audience.isVerified;
+  }
+
+  (['activeWithinDays', 'inactiveForDays'] as const).forEach(field => {
+    if (audience[field] !== undefined) {
+      const days = Number(audience[field]);
+      if (!Number.isInteger(days) || days < 1 || days > 3650) {
+        throw invalid(`${field} must be a whole number of days`);
+      }
+      filter[field] = days;
+    }
+  });
+
+  return filter;
+}
+
+function buildAudienceQuery(filter: BroadcastAudienceFilter): admin.firestore.Query {
+  let query: admin.firestore.Query = admin.firestore()
+    .collection('users')
+    .where('isActive', '==', true);
+
+  if (filter.languages) {
+    query = filter.languages.length === 1
+      ? query.where('settings.language', '==', filter.languages[0])
+      : query.where('settings.language', 'in', filter.languages);
+  }
+
+  if (filter.isVerified !== undefined) {
+    query = query.where('isVerified', '==', filter.isVerified);
+  }
+
+  if (filter.interests) {
+    query = query.where('interests', 'array-contains-any', filter.interests);
+  }
+
+  const daysAgo = (days: number) => admin.firestore.Timestamp.fromMillis(Date.now() - days * 24 * 60 * 60 * 1000);
+  if (filter.activeWithinDays) {
+    query = query.where('lastSeenAt', '>=', daysAgo(filter.activeWithinDays));
+  }
+  if (filter.inactiveForDays) {
+    query = query.where('lastSeenAt', '<', daysAgo(filter.inactiveForDays));
+  }
+
+  // Range filters need their field ordered first
+  if (filter.activeWithinDays || filter.inactiveForDays) {
+    query = query.orderBy('lastSeenAt');
+  }
+
+  return query
+    .orderBy(admin.firestore.FieldPath.documentId())
+    .select('displayName', 'settings.language');
+}
+
+/**
+ * Page through matching users. Stops once `limit` members are found (null = all).
+ */
+async function findAudience(
+  filter: BroadcastAudienceFilter,
+  limit: number | null
+): Promise<{ count: number; members: AudienceMember[] }> {
+  const query = buildAudienceQuery(filter);
+
+  // Without a platform filter Firestore can count for us
+  if (!filter.platforms && limit === null) {
+    const [countSnapshot, sampleSnapshot] = await Promise.all([
+      query.count().get(),
+      query.limit(AUDIENCE_SAMPLE_SIZE).get(),
+    ]);
+    return {
+      count: countSnapshot.data().count,
+      members: sampleSnapshot.docs.map(toAudienceMember),
+    };
+  }
+
+  const platformUserIds = filter.platforms ? await getUserIdsWithPlatforms(filter.platforms) : null;
+  const members: AudienceMember[] = [];
+  let lastDoc: admin.firestore.QueryDocumentSnapshot | null = null;
+
+  for (;;) {
+    const pageQuery: admin.firestore.Query = lastDoc ? query.startAfter(lastDoc) : query;
+    const snapshot = await pageQuery.limit(AUDIENCE_PAGE_SIZE).get();
+
+    snapshot.docs.forEach(doc => {
+      if (!platformUserIds || platformUserIds.has(doc.id)) {
+        members.push(toAudienceMember(doc));
+      }
+    });
+
+    if (snapshot.size < AUDIENCE_PAGE_SIZE || (limit !== null && members.length >= limit)) {
+      break;
+    }
+    lastDoc = snapshot.docs[snapshot.size - 1];
+  }
+
+  return { count: members.length, members };
+}
+
+async function getUserIdsWithPlatforms(platforms: DevicePlatform[]): Promise<Set<string>> {
+  const snapshot = await admin.firestore()
+    .collectionGroup('devices')
+    .where('platform', 'in', platforms)
+    .select()
+    .get();
+
+  return new Set(
+    snapshot.docs
+      .map(doc => doc.ref.parent.parent?.id)
+      .filter((id): id is string => !!id)
+  );
+}
+
+function toAudienceMember(doc: admin.firestore.QueryDocumentSnapshot): AudienceMember {
+  const user = doc.data();
+  return {
+    id: doc.id,
+    displayName: user.displayName || '',
+    language: user.settings?.language || null,
+  };
+}
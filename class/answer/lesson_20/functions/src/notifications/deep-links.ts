@@ -0,0 +1,79 @@
+import { NotificationType } from '../types';
+
+/**
+ * Canonical app routes. Push payloads (Android, APNs, web) and emails all link
+ * through these so the Flutter NavigationService sees one route per screen.
+ */
+export const ROUTES = {
+  home: '/',
+  post: '/post/:postId',
+  chat: '/chat/:chatId',
+  profile: '/profile/:userId',
+  friendRequests: '/friend-requests',
+  notifications: '/notifications',
+} as const;
+
+export type RouteName = keyof typeof ROUTES;
+
+// '/post/:postId' -> 'postId'
+type PathParams<Path extends string> =
+  Path extends `${string}:${infer Param}/${infer Rest}`
+    ? Param | PathParams<`/${Rest}`>
+    : Path extends `${string}:${infer Param}`
+      ? Param
+      : never;
+
+export type RouteParams<Name extends RouteName> = Record<PathParams<typeof ROUTES[Name]>, string>;
+
+/**
+ * Fill a route's parameters. Throws if one is missing so a broken link is
+ * never sent; use getNotificationLink for the fallback behaviour.
+ */
+export function buildDeepLink<Name extends RouteName>(
+  name: Name,
+  params: RouteParams<Name>
+): string {
+  return ROUTES[name].replace(/:(\w+)/g, (_match, param: string) => {
+    const value = (params as Record<string, string>)[param];
+    if (!value) {
+      throw new Error(`Missing route parameter ${param} for ${name}`);
+    }
+    return encodeURIComponent(value);
+  });
+}
+
+/**
+ * Route for each notification type, from the data the template carries
+ */
+const NOTIFICATION_ROUTES: Record<NotificationType, (data: Record<string, any>) => string> = {
+  [NotificationType.NEW_POST]: (data) => buildDeepLink('post', { postId: data.postId }),
+  [NotificationType.NEW_LIKE]: (data) => buildDeepLink('post', { postId: data.postId }),
+  [NotificationType.NEW_COMMENT]: (data) => buildDeepLink('post', { postId: data.postId }),
+  [NotificationType.FRIEND_REQUEST]: (data) => data.action === 'new_follower'
+    ? buildDeepLink('profile', { userId: data.followerId })
+    : buildDeepLink('friendRequests', {}),
+  [NotificationType.NEW_MESSAGE]: (data) => buildDeepLink('chat', { chatId: data.chatId }),
+  [NotificationType.SYSTEM_ALERT]: () => buildDeepLink('notifications', {}),
+  [NotificationType.WELCOME]: () => buildDeepLink('home', {}),
+  [NotificationType.REMINDER]: () => buildDeepLink('notifications', {}),
+};
+
+/**
+ * Deep link for a notification. Falls back to the inbox when the data is
+ * missing a parameter the route needs.
+ */
+export function getNotificationLink(type: NotificationType, data: Record<string, any> = {}): string {
+  try {
+    return NOTIFICATION_ROUTES[type](data);
+  } catch (error) {
+    console.warn(`No deep link for ${type}: ${(error as Error).message}`);
+    return ROUTES.notifications;
+  }
+}
+
+/**
+ * Absolute URL for a deep link, for web push and email
+ */
+export function getWebUrl(link: string): string {
+  return `${process.env.APP_BASE_URL || 'https://socialhub.app'}${link}`;
+}
@@ -0,0 +1,250 @@
+import * as crypto from 'crypto';
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { DeviceData, DevicePlatform } from '../types';
+import { requireAuth, createSuccessResponse } from '../utils/auth';
+import { syncDeviceTopics } from './hashtag-functions';
+import { parsePushSubscription } from './web-push-provider';
+
+const VALID_PLATFORMS: DevicePlatform[] = ['ios', 'android', 'web'];
+
+/**
+ * Register (or refresh) the calling user's device for push notifications.
+ * Apps send their FCM `token`; browsers using VAPID web push send their
+ * PushSubscription as `subscription` instead.
+ */
+export const registerDevice = functions.https.onCall(async (data, context) => {
+  const uid = requireAuth(context);
+  const { platform, appVersion, locale, deviceId } = data || {};
+
+  if (!VALID_PLATFORMS.includes(platform)) {
+    throw new functions.https.HttpsError(
+      'invalid-argument',
+      `Invalid platform. Must be one of: ${VALID_PLATFORMS.join(', ')}`
+    );
+  }
+
+  const token = getRegistrationToken(data);
+  if (data?.subscription && platform !== 'web') {
+    throw new functions.https.HttpsError('invalid-argument', 'Push subscriptions are for the web platform');
+  }
+
+  try {
+    const id = getDeviceDocId(token, deviceId);
+    const deviceRef = admin.firestore()
+      .collection('users')
+      .doc(uid)
+      .collection('devices')
+      .doc(id);
+
+    // A token belongs to one signed-in user at a time
+    await releaseTokenFromOtherUsers(uid, token);
+
+    await admin.firestore().runTransaction(async (transaction) => {
+      const deviceDoc = await transaction.get(deviceRef);
+
+      transaction.set(deviceRef, {
+        token,
+        platform,
+        appVersion: appVersion || null,
+        locale: locale || null,
+        lastSeenAt: admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        ...(deviceDoc.exists ? {} : { createdAt: admin.firestore.FieldValue.serverTimestamp() }),
+      }, { merge: true });
+    });
+
+    // New devices pick up the user's hashtag topics
+    await syncDeviceTopics(uid, token, true);
+
+    console.log(`Registered ${platform} device ${id} for user ${uid}`);
+    return createSuccessResponse({ deviceId: id });
+  } catch (error) {
+    console.error(`Failed to register device for user ${uid}:`, error);
+    throw new functions.https.HttpsError('internal', 'Failed to register device');
+  }
+});
+
+/**
+ * Remove the calling user's device, e.g. on sign-out
+ */
+export const unregisterDevice = functions.https.onCall(async (data, context) => {
+  const uid = requireAuth(context);
+  const { deviceId } = data || {};
+  const token = data?.token || data?.subscription ? getRegistrationToken(data) : null;
+
+  if (!token && !deviceId) {
+    throw new functions.https.HttpsError('invalid-argument', 'Provide either token, subscription or deviceId');
+  }
+
+  try {
+    const devicesRef = admin.firestore()
+      .collection('users')
+      .doc(uid)
+      .collection('devices');
+
+    const deviceDocs = deviceId
+      ? [await devicesRef.doc(deviceId).get()].filter(doc => doc.exists)
+      : (await devicesRef.where('token', '==', token).get()).docs;
+
+    for (const doc of deviceDocs) {
+      await syncDeviceTopics(uid, doc.data()!.token, false);
+      await doc.ref.delete();
+    }
+
+    // Older app versions keep the token on the user document
+    const removedToken = token || deviceDocs[0]?.data()?.token;
+    if (removedToken) {
+      await admin.firestore().collection('users').doc(uid).update({
+        fcmTokens: admin.firestore.FieldValue.arrayRemove(removedToken),
+      });
+    }
+
+    console.log(`Unregistered device for user ${uid}`);
+    return createSuccessResponse({ removed: true });
+  } catch (error) {
+    console.error(`Failed to unregister device for user ${uid}:`, error);
+    throw new functions.https.HttpsError('internal', 'Failed to unregister device');
+  }
+});
+
+/**
+ * Get all registered devices for a user
+ */
+export async function getUserDevices(userId: string): Promise<DeviceData[]> {
+  const snapshot = await admin.firestore()
+    .collection('users')
+    .doc(userId)
+    .collection('devices')
+    .get();
+
+  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as DeviceData));
+}
+
+/**
+ * FCM tokens older app versions still write to UserData.fcmTokens instead of
+ * registering a device. Sent to alongside the devices until those apps update.
+ */
+export async function getLegacyTokens(userId: string): Promise<string[]> {
+  const userDoc = await admin.firestore().collection('users').doc(userId).get();
+  const tokens = userDoc.data()?.fcmTokens;
+  return Array.isArray(tokens) ? tokens.filter(token => typeof token === 'string' && token) : [];
+}
+
+/**
+ * Delete every device document holding one of these tokens, and drop them
+ * from legacy fcmTokens lists. Returns the number of documents changed.
+ */
+export async function removeDevicesByTokens(tokens: string[]): Promise<number> {
+  let removed = 0;
+
+  // 'in' queries accept at most 30 values
+  for (let i = 0; i < tokens.length; i += 30) {
+    const chunk = tokens.slice(i, i + 30);
+    const [snapshot, legacySnapshot] = await Promise.all([
+      admin.firestore()
+        .collectionGroup('devices')
+        .where('token', 'in', chunk)
+        .get(),
+      admin.firestore()
+        .collection('users')
+        .where('fcmTokens', 'array-contains-any', chunk)
+        .get(),
+    ]);
+
+    if (snapshot.empty && legacySnapshot.empty) continue;
+
+    const batch = admin.firestore().batch();
+    snapshot.docs.forEach(doc => batch.delete(doc.ref));
+    legacySnapshot.docs.forEach(doc => batch.update(doc.ref, {
+      fcmTokens: admin.firestore.FieldValue.arrayRemove(...chunk),
+    }));
+    await batch.commit();
+    removed += snapshot.size + legacySnapshot.size;
+  }
+
+  return removed;
+}
+
+/**
+ * Delete devices that have not checked in since the cutoff
+ */
+export async function removeStaleDevices(cutoff: Date, limit: number = 500): Promise<number> {
+  const snapshot = await admin.firestore()
+    .collectionGroup('devices')
+    .where('lastSeenAt', '<', admin.firestore.Timestamp.fromDate(cutoff))
+    .limit(limit)
+    .get();
+
+  if (snapshot.empty) {
+    return 0;
+  }
+
+  const batch = admin.firestore().batch();
+  snapshot.docs.forEach(doc => batch.delete(doc.ref));
+  await batch.commit();
+  return snapshot.size;
+}
+
+// Helper functions
+
+/**
+ * The token stored on the device: the FCM token, or the subscription as
+ * normalized JSON so the same subscription always maps to the same device
+ */
+function getRegistrationToken(data: any): string {
+  if (data?.subscription) {
+    const subscription = parsePushSubscription(data.subscription);
+    if (!subscription) {
+      throw new functions.https.HttpsError(
+        'invalid-argument',
+        'subscription must have an HTTPS endpoint and p256dh and auth keys'
+      );
+    }
+    return JSON.stringify(subscription);
+  }
+
+  if (!data?.token || typeof data.token !== 'string' || data.token.startsWith('{')) {
+    throw new functions.https.HttpsError('invalid-argument', 'Missing required field: token or subscription');
+  }
+  return data.token;
+}
+
+function getDeviceDocId(token: string, deviceId?: string): string {
+  if (deviceId && typeof deviceId === 'string' && !/[/]/.test(deviceId)) {
+    return deviceId;
+  }
+  return crypto.createHash('sha256').update(token).digest('hex').substring(0, 32);
+}
+
+async function releaseTokenFromOtherUsers(uid: string, token: string): Promise<void> {
+  const [snapshot, legacySnapshot] = await Promise.all([
+    admin.firestore()
+      .collectionGroup('devices')
+      .where('token', '==', token)
+      .get(),
+    admin.firestore()
+      .collection('users')
+      .where('fcmTokens', 'array-contains', token)
+      .get(),
+  ]);
+
+  const foreignDocs = snapshot.docs.filter(doc => doc.ref.parent.parent?.id !== uid);
+  const foreignUsers = legacySnapshot.docs.filter(doc => doc.id !== uid);
+  if (foreignDocs.length === 0 && foreignUsers.length === 0) {
+    return;
+  }
+
+  const batch = admin.firestore().batch();
+  foreignDocs.forEach(doc => batch.delete(doc.ref));
+  foreignUsers.forEach(doc => batch.update(doc.ref, {
+    fcmTokens: admin.firestore.FieldValue.arrayRemove(token),
+  }));
+  await batch.commit();
+
+  // Stop the previous owner's hashtag topics reaching this device
+  for (const doc of foreignDocs) {
+    await syncDeviceTopics(doc.ref.parent.parent!.id, token, false);
+  }
+  console.log(`Released token from ${foreignDocs.length} other user device(s) and ${foreignUsers.length} fcmTokens list(s)`);
+}
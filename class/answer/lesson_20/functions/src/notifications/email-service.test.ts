@@ -0,0 +1,34 @@
+import { NotificationType } from '../types';
+import { EmailService } from './email-service';
+
+describe('EmailService', () => {
+  const content = { title: 'ความคิดเห็นใหม่ 💬', body: 'Alice แสดงความคิดเห็นในโพสต์ของคุณ' };
+  const data = { postId: 'post1', commentId: 'comment1' };
+
+  it('renders the action label and footer in the recipient\'s locale', () => {
+    const message = EmailService.renderNotificationEmail('a@example.com', NotificationType.NEW_COMMENT, content, data, 'th');
+
+    expect(message.text).toContain('ตอบกลับ: ');
+    expect(message.text).toContain('การตั้งค่า > การแจ้งเตือน');
+    expect(message.html).toContain('การตั้งค่า &gt; การแจ้งเตือน');
+    expect(message.text).not.toContain('Settings');
+  });
+
+  it('escapes the copy for HTML, ampersands included', () => {
+    const message = EmailService.renderNotificationEmail('a@example.com', NotificationType.SYSTEM_ALERT, {
+      title: 'Q&A tonight',
+      body: 'Bring questions <live> & "ideas"',
+    });
+
+    expect(message.html).toContain('Q&amp;A tonight');
+    expect(message.html).toContain('Bring questions &lt;live&gt; &amp; &quot;ideas&quot;');
+    expect(message.text).toContain('Bring questions <live> & "ideas"');
+  });
+
+  it('falls back to English labels', () => {
+    const message = EmailService.renderNotificationEmail('a@example.com', NotificationType.NEW_COMMENT, content, data, 'fr');
+
+    expect(message.text).toContain('Reply: ');
+    expect(message.text).toContain('Settings > Notifications');
+  });
+});
@@ -0,0 +1,282 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as nodemailer from 'nodemailer';
+import { NotificationType } from '../types';
+import { escapeHtml } from '../utils/validation';
+import { getNotificationLink, getWebUrl } from './deep-links';
+import { DEFAULT_LOCALE, translate } from './message-catalog';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Delivery mechanism for rendered emails. Returns a provider message ID.
+ */
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<string>;
+}
+
+export interface EmailTemplate {
+  subject: string;
+  heading: string;
+  text: string;
+  actionLabel: string;
+}
+
+/**
+ * SMTP transport backed by nodemailer, configured from environment variables
+ */
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private transporter: nodemailer.Transporter;
+
+  constructor(
+    private from: string = process.env.EMAIL_FROM || 'SocialHub Pro <no-reply@socialhub.app>',
+    options: {
+      host?: string;
+      port?: number;
+      user?: string;
+      pass?: string;
+    } = {}
+  ) {
+    const port = options.port || parseInt(process.env.SMTP_PORT || '587', 10);
+    const user = options.user || process.env.SMTP_USER;
+
+    this.transporter = nodemailer.createTransport({
+      host: options.host || process.env.SMTP_HOST,
+      port,
+      secure: port === 465,
+      auth: user ? { user, pass: options.pass || process.env.SMTP_PASS } : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<string> {
+    const info = await this.transporter.sendMail({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      headers: message.headers,
+    });
+    return info.messageId;
+  }
+}
+
+/**
+ * Keeps sent emails in memory - for tests
+ */
+export class MemoryEmailTransport implements EmailTransport {
+  readonly name = 'memory';
+  readonly sent: EmailMessage[] = [];
+
+  async send(message: EmailMessage): Promise<string> {
+    this.sent.push(message);
+    return `memory_${this.sent.length}`;
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+  }
+}
+
+/**
+ * Writes each email as a JSON file - for the emulator
+ */
+export class FileEmailTransport implements EmailTransport {
+  readonly name = 'file';
+
+  constructor(private directory: string = process.env.EMAIL_OUTBOX_DIR || path.join(process.cwd(), '.outbox')) {}
+
+  async send(message: EmailMessage): Promise<string> {
+    const messageId = `file_${Date.now()}_${Math.random().toString(36).substring(2, 10)}`;
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.writeFile(
+      path.join(this.directory, `${messageId}.json`),
+      JSON.stringify({ ...message, createdAt: new Date().toISOString() }, null, 2)
+    );
+    return messageId;
+  }
+}
+
+export class EmailService {
+  private static transport: EmailTransport | null = null;
+
+  /**
+   * Override the transport (tests) - otherwise chosen from EMAIL_TRANSPORT
+   */
+  static setTransport(transport: EmailTransport | null): void {
+    this.transport = transport;
+  }
+
+  static getTransport(): EmailTransport {
+    if (!this.transport) {
+      this.transport = this.createDefaultTransport();
+    }
+    return this.transport;
+  }
+
+  /**
+   * Render and send the email for a notification
+   */
+  static async sendNotificationEmail(
+    to: string,
+    type: NotificationType,
+    content: { title: string; body: string },
+    data: Record<string, any> = {},
+    locale: string = DEFAULT_LOCALE
+  ): Promise<string> {
+    const message = this.renderNotificationEmail(to, type, content, data, locale);
+    const transport = this.getTransport();
+    const messageId = await transport.send(message);
+
+    console.log(`Email sent via ${transport.name}: ${messageId}`);
+    return messageId;
+  }
+
+  /**
+   * Render HTML and text versions of a notification email. Content is already
+   * localized; labels and the footer come from the message catalog.
+   */
+  static renderNotificationEmail(
+    to: string,
+    type: NotificationType,
+    content: { title: string; body: string },
+    data: Record<string, any> = {},
+    locale: string = DEFAULT_LOCALE
+  ): EmailMessage {
+    const template = this.getEmailTemplate(type, content, data, locale);
+    const actionUrl = getWebUrl(getNotificationLink(type, data));
+    const footer = translate(locale, 'email.footer');
+
+    const text = [
+      template.heading,
+      '',
+      template.text,
+      '',
+      `${template.actionLabel}: ${actionUrl}`,
+      '',
+      footer,
+    ].join('\n');
+
+    const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f5f5fa;font-family:Helvetica,Arial,sans-serif;color:#222">
+    <div style="max-width:560px;margin:0 auto;background:#fff;border-radius:12px;padding:32px">
+      <h1 style="margin:0 0 16px;font-size:20px;color:#6C63FF">${escapeHtml(template.heading)}</h1>
+      <p style="margin:0 0 24px;font-size:16px;line-height:1.5">${escapeHtml(template.text)}</p>
+      <a href="${escapeHtml(encodeURI(actionUrl))}" style="display:inline-block;padding:12px 20px;background:#6C63FF;color:#fff;border-radius:8px;text-decoration:none">${escapeHtml(template.actionLabel)}</a>
+      <p style="margin:32px 0 0;font-size:12px;color:#888">${escapeHtml(footer)}</p>
+    </div>
+  </body>
+</html>`;
+
+    return {
+      to,
+      subject: template.subject,
+      html,
+      text,
+      headers: { 'X-Notification-Type': type },
+    };
+  }
+
+  /**
+   * Get email template based on notification type
+   */
+  static getEmailTemplate(
+    type: NotificationType,
+    content: { title: string; body: string },
+    data: Record<string, any>,
+    locale: string = DEFAULT_LOCALE
+  ): EmailTemplate {
+    const label = (key: string) => translate(locale, `email.${key}`);
+
+    const templates: Record<NotificationType, () => EmailTemplate> = {
+
+      [NotificationType.NEW_POST]: () => ({
+        subject: content.body,
+        heading: content.title,
+        text: data.postPreview ? `${content.body}: "${data.postPreview}"` : content.body,
+        actionLabel: label('view_post'),
+      }),
+
+      [NotificationType.NEW_LIKE]: () => ({
+        subject: content.body,
+        heading: content.title,
+        text: content.body,
+        actionLabel: label('view_post'),
+      }),
+
+      [NotificationType.NEW_COMMENT]: () => ({
+        subject: content.body,
+        heading: content.title,
+        text: data.commentPreview ? `${content.body}: "${data.commentPreview}"` : content.body,
+        actionLabel: label('reply'),
+      }),
+
+      [NotificationType.FRIEND_REQUEST]: () => ({
+        subject: content.body,
+        heading: content.title,
+        text: content.body,
+        actionLabel: data.action === 'new_follower' ? label('view_profile') : label('view_request'),
+      }),
+
+      [NotificationType.NEW_MESSAGE]: () => ({
+        subject: content.title,
+        heading: content.title,
+        text: content.body,
+        actionLabel: label('open_chat'),
+      }),
+
+      [NotificationType.SYSTEM_ALERT]: () => ({
+        subject: content.title,
+        heading: content.title,
+        text: content.body,
+        actionLabel: label('view_details'),
+      }),
+
+      [NotificationType.WELCOME]: () => ({
+        subject: content.title,
+        heading: content.title,
+        text: content.body,
+        actionLabel: label('get_started'),
+      }),
+
+      [NotificationType.REMINDER]: () => ({
+        subject: content.title,
+        heading: content.title,
+        text: content.body,
+        actionLabel: label('open_app'),
+      }),
+    };
+
+    const templateFunction = templates[type];
+    if (!templateFunction) {
+      throw new Error(`Unknown email template: ${type}`);
+    }
+
+    return templateFunction();
+  }
+
+  private static createDefaultTransport(): EmailTransport {
+    const transportName = process.env.EMAIL_TRANSPORT ||
+      (process.env.FUNCTIONS_EMULATOR === 'true' ? 'file' : 'smtp');
+
+    switch (transportName) {
+      case 'memory':
+        return new MemoryEmailTransport();
+      case 'file':
+        return new FileEmailTransport();
+      case 'smtp':
+        return new SmtpEmailTransport();
+      default:
+        throw new Error(`Unknown email transport: ${transportName}`);
+    }
+  }
+}
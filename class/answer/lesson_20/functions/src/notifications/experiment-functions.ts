@@ -0,0 +1,110 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { requireAuth, requireAuthAndRole, createSuccessResponse } from '../utils/auth';
+import { NOTIFICATION_EXPERIMENTS, notificationService } from './notification-service';
+
+/**
+ * Record that the caller opened a notification (tapped the push or opened it
+ * in the inbox). Only the first open counts; pushes carry notificationId.
+ */
+export const recordNotificationOpen = functions.https.onCall(async (data, context) => {
+  const uid = requireAuth(context);
+  const notificationId = data?.notificationId;
+  const source = data?.source === 'inbox' ? 'inbox' : 'push';
+
+  if (!notificationId || typeof notificationId !== 'string') {
+    throw new functions.https.HttpsError('invalid-argument', 'Missing required field: notificationId');
+  }
+
+  try {
+    const recordRef = admin.firestore()
+      .collection('users')
+      .doc(uid)
+      .collection('notifications')
+      .doc(notificationId);
+
+    const firstOpen = await admin.firestore().runTransaction(async (transaction) => {
+      const recordDoc = await transaction.get(recordRef);
+      if (!recordDoc.exists) {
+        throw new functions.https.HttpsError('not-found', 'Notification not found');
+      }
+
+      const record = recordDoc.data()!;
+      if (record.openedAt) {
+        return false;
+      }
+
+      transaction.update(recordRef, {
+        openedAt: admin.firestore.FieldValue.serverTimestamp(),
+        openSource: source,
+      });
+
+      // Opens only count for records whose push went out, like sentCount
+      if (record.experiment?.pushed) {
+        transaction.set(notificationService.getExperimentVariantRef({
+          experimentId: record.experiment.id,
+          variantId: record.experiment.variant,
+        }), {
+          openedCount: admin.firestore.FieldValue.increment(1),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        }, { merge: true });
+      }
+      return true;
+    });
+
+    return createSuccessResponse({ notificationId, firstOpen });
+  } catch (error) {
+    if (error instanceof functions.https.HttpsError) throw error;
+    console.error(`Failed to record open of ${notificationId} for ${uid}:`, error);
+    throw new functions.https.HttpsError('internal', 'Failed to record notification open');
+  }
+});
+
+/**
+ * Open rates per variant for a copy experiment (admin only)
+ */
+export const getNotificationExperimentReport = functions.https.onCall(async (data, context) => {
+  await requireAuthAndRole(context, 'admin');
+  const experiment = NOTIFICATION_EXPERIMENTS.find(candidate => candidate.id === data?.experimentId);
+
+  if (!experiment) {
+    throw new functions.https.HttpsError(
+      'invalid-argument',
+      `Unknown experimentId. Must be one of: ${NOTIFICATION_EXPERIMENTS.map(e => e.id).join(', ')}`
+    );
+  }
+
+  try {
+    const variantDocs = await admin.firestore().getAll(
+      ...experiment.variants.map(variant => notificationService.getExperimentVariantRef({
+        experimentId: experiment.id,
+        variantId: variant.id,
+      }))
+    );
+
+    const variants = experiment.variants.map((variant, index) => {
+      const counters = variantDocs[index].data() || {};
+      const sentCount = counters.sentCount || 0;
+      const openedCount = counters.openedCount || 0;
+
+      return {
+        variantId: variant.id,
+        weight: variant.weight,
+        messageKey: variant.messageKey || experiment.messageKey,
+        sentCount,
+        openedCount,
+        openRate: sentCount > 0 ? openedCount / sentCount : 0,
+      };
+    });
+
+    return createSuccessResponse({
+      experimentId: experiment.id,
+      type: experiment.type,
+      active: experiment.active,
+      variants,
+    });
+  } catch (error) {
+    console.error(`Failed to build report for experiment ${experiment.id}:`, error);
+    throw new functions.https.HttpsError('internal', 'Failed to build experiment report');
+  }
+});
@@ -0,0 +1,412 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { NotificationData } from '../types';
+import { notificationService } from './notification-service';
+
+/**
+ * Follower fan-out runs as a chain of task documents so no single invocation
+ * has to load or notify an author's whole following:
+ *
+ *   fanoutJobs/{jobId}                  job, with totals mirrored onto the post
+ *   fanoutJobs/{jobId}/pages/{n}        reads one page of follows, writes chunks + next page
+ *   fanoutJobs/{jobId}/chunks/{n}_{k}   notifies up to chunkSize followers
+ *
+ * A job's audience is either the author's followers or the followers of the
+ * post's hashtags (hashtagFollows), minus the author's followers and anyone
+ * in excludeUserIds.
+ *
+ * Tasks are claimed in a transaction before they run, so a redelivered trigger
+ * never processes the same page or chunk twice.
+ */
+export const FANOUT_CONFIG = {
+  pageSize: 1000,
+  chunkSize: 100,
+};
+
+// Firestore allows up to 30 values in an 'in' filter
+const IN_FILTER_LIMIT = 30;
+
+type FanoutNotification = Omit<NotificationData, 'targetUserId'>;
+
+type FanoutAudience = 'followers' | 'hashtag_followers';
+
+// Post field each audience's progress is mirrored to
+const POST_PROGRESS_FIELDS: Record<FanoutAudience, string> = {
+  followers: 'followerFanout',
+  hashtag_followers: 'hashtagFanout',
+};
+
+interface FanoutPage {
+  recipientIds: string[];
+  // Hashtag that matched each recipient, for hashtag audiences
+  matchedHashtags?: string[];
+  cursor: string | null;
+  lastUserId?: string | null;
+}
+
+/**
+ * Start notifying an author's followers about a post
+ */
+export async function startFollowerFanout(
+  postId: string,
+  authorId: string,
+  notification: FanoutNotification
+): Promise<string> {
+  return createFanoutJob(`post_${postId}`, postId, authorId, notification, { audience: 'followers' });
+}
+
+/**
+ * Start notifying the followers of a post's hashtags. The author's followers
+ * and excludeUserIds (e.g. mentioned users) are skipped, since they hear
+ * about the post through their own notifications.
+ */
+export async function startHashtagFanout(
+  postId: string,
+  authorId: string,
+  hashtags: string[],
+  excludeUserIds: string[],
+  notification: FanoutNotification
+): Promise<string> {
+  return createFanoutJob(`post_${postId}_hashtags`, postId, authorId, notification, {
+    audience: 'hashtag_followers',
+    hashtags: hashtags.slice(0, IN_FILTER_LIMIT),
+    excludeUserIds,
+  });
+}
+
+async function createFanoutJob(
+  jobId: string,
+  postId: string,
+  authorId: string,
+  notification: FanoutNotification,
+  audience: { audience: FanoutAudience; hashtags?: string[]; excludeUserIds?: string[] }
+): Promise<string> {
+  const jobRef = admin.firestore().collection('fanoutJobs').doc(jobId);
+  const batch = admin.firestore().batch();
+
+  // create() fails if the job exists, so a redelivered post trigger cannot restart it
+  batch.create(jobRef, {
+    postId,
+    authorId,
+    ...audience,
+    notification,
+    status: 'running',
+    pagesProcessed: 0,
+    pagingComplete: false,
+    chunksTotal: 0,
+    chunksCompleted: 0,
+    followersTotal: 0,
+    notifiedCount: 0,
+    failedCount: 0,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  batch.create(jobRef.collection('pages').doc('0'), {
+    pageIndex: 0,
+    cursor: null,
+    status: 'pending',
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  batch.update(admin.firestore().collection('posts').doc(postId), {
+    [POST_PROGRESS_FIELDS[audience.audience]]: {
+      jobId: jobRef.id,
+      status: 'running',
+      followersTotal: 0,
+      notifiedCount: 0,
+      chunksTotal: 0,
+      chunksCompleted: 0,
+    },
+  });
+
+  await batch.commit();
+  console.log(`Started ${audience.audience} fan-out ${jobRef.id} for post ${postId}`);
+  return jobRef.id;
+}
+
+/**
+ * Read one page of followers, split it into chunk tasks and queue the next page
+ */
+export const processFanoutPage = functions.firestore
+  .document('fanoutJobs/{jobId}/pages/{pageId}')
+  .onCreate(async (snapshot, context) => {
+    const jobId = context.params.jobId;
+    const jobRef = admin.firestore().collection('fanoutJobs').doc(jobId);
+
+    if (!(await claimTask(snapshot.ref))) {
+      console.log(`Fan-out page ${snapshot.id} of ${jobId} already claimed`);
+      return;
+    }
+
+    try {
+      const jobDoc = await jobRef.get();
+      const job = jobDoc.data();
+      if (!job || job.status !== 'running') {
+        await snapshot.ref.update({ status: 'skipped' });
+        return;
+      }
+
+      const { pageIndex } = snapshot.data();
+      const page = job.audience === 'hashtag_followers'
+        ? await readHashtagFollowerPage(job, snapshot.data())
+        : await readFollowerPage(job, snapshot.data());
+      const followerIds = page.recipientIds;
+      const hasMore = page.cursor !== null;
+
+      const batch = admin.firestore().batch();
+      let chunkCount = 0;
+
+      for (let i = 0; i < followerIds.length; i += FANOUT_CONFIG.chunkSize) {
+        batch.set(jobRef.collection('chunks').doc(`${pageIndex}_${chunkCount}`), {
+          followerIds: followerIds.slice(i, i + FANOUT_CONFIG.chunkSize),
+          ...(page.matchedHashtags
+            ? { matchedHashtags: page.matchedHashtags.slice(i, i + FANOUT_CONFIG.chunkSize) }
+            : {}),
+          status: 'pending',
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        chunkCount++;
+      }
+
+      if (hasMore) {
+        batch.set(jobRef.collection('pages').doc(String(pageIndex + 1)), {
+          pageIndex: pageIndex + 1,
+          cursor: page.cursor,
+          ...(page.lastUserId !== undefined ? { lastUserId: page.lastUserId } : {}),
+          status: 'pending',
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      }
+
+      batch.update(snapshot.ref, {
+        status: 'done',
+        followerCount: followerIds.length,
+        chunkCount,
+        completedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      await batch.commit();
+
+      await updateJobProgress(jobRef, {
+        pagesProcessed: 1,
+        chunksTotal: chunkCount,
+        followersTotal: followerIds.length,
+      }, !hasMore);
+
+      console.log(`Fan-out ${jobId} page ${pageIndex}: ${followerIds.length} followers in ${chunkCount} chunks`);
+    } catch (error) {
+      console.error(`Fan-out page ${snapshot.id} of ${jobId} failed:`, error);
+      await snapshot.ref.update({
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await jobRef.update({ status: 'failed' });
+    }
+  });
+
+/**
+ * Notify one chunk of followers
+ */
+export const processFanoutChunk = functions.firestore
+  .document('fanoutJobs/{jobId}/chunks/{chunkId}')
+  .onCreate(async (snapshot, context) => {
+    const jobId = context.params.jobId;
+    const jobRef = admin.firestore().collection('fanoutJobs').doc(jobId);
+
+    if (!(await claimTask(snapshot.ref))) {
+      console.log(`Fan-out chunk ${snapshot.id} of ${jobId} already claimed`);
+      return;
+    }
+
+    const jobDoc = await jobRef.get();
+    const job = jobDoc.data();
+    if (!job) {
+      await snapshot.ref.update({ status: 'skipped' });
+      return;
+    }
+
+    const followerIds: string[] = snapshot.data().followerIds || [];
+    const matchedHashtags: string[] | undefined = snapshot.data().matchedHashtags;
+    const notification: FanoutNotification = job.notification;
+
+    const results = await Promise.allSettled(
+      followerIds.map((followerId, i) =>
+        notificationService.sendNotificationToUser({
+          ...notification,
+          targetUserId: followerId,
+          ...(matchedHashtags
+            ? { data: { ...notification.data, hashtag: matchedHashtags[i] } }
+            : {}),
+        })
+      )
+    );
+
+    const notifiedCount = results.filter(result => result.status === 'fulfilled').length;
+    const failedCount = results.length - notifiedCount;
+    if (failedCount > 0) {
+      console.error(`Fan-out chunk ${snapshot.id} of ${jobId}: ${failedCount} notifications failed`);
+    }
+
+    await snapshot.ref.update({
+      status: 'done',
+      notifiedCount,
+      failedCount,
+      completedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    await updateJobProgress(jobRef, {
+      chunksCompleted: 1,
+      notifiedCount,
+      failedCount,
+    }, false);
+  });
+
+// Helper functions
+
+async function readFollowerPage(
+  job: admin.firestore.DocumentData,
+  task: admin.firestore.DocumentData
+): Promise<FanoutPage> {
+  let followsQuery = admin.firestore()
+    .collection('follows')
+    .where('followingId', '==', job.authorId)
+    .where('isActive', '==', true)
+    .orderBy(admin.firestore.FieldPath.documentId())
+    .limit(FANOUT_CONFIG.pageSize);
+
+  if (task.cursor) {
+    followsQuery = followsQuery.startAfter(task.cursor);
+  }
+
+  const followsSnapshot = await followsQuery.get();
+  return {
+    recipientIds: followsSnapshot.docs.map(doc => doc.data().followerId),
+    cursor: followsSnapshot.size === FANOUT_CONFIG.pageSize
+      ? followsSnapshot.docs[followsSnapshot.size - 1].id
+      : null,
+  };
+}
+
+/**
+ * Read one page of hashtag follows. Follows are ordered by path
+ * (users/{uid}/hashtagFollows/{tag}), so a user's follows are adjacent and
+ * only the first matching tag is kept; lastUserId carries that across pages.
+ */
+async function readHashtagFollowerPage(
+  job: admin.firestore.DocumentData,
+  task: admin.firestore.DocumentData
+): Promise<FanoutPage> {
+  let followsQuery = admin.firestore()
+    .collectionGroup('hashtagFollows')
+    .where('hashtag', 'in', job.hashtags)
+    .orderBy(admin.firestore.FieldPath.documentId())
+    .limit(FANOUT_CONFIG.pageSize);
+
+  if (task.cursor) {
+    followsQuery = followsQuery.startAfter(admin.firestore().doc(task.cursor));
+  }
+
+  const followsSnapshot = await followsQuery.get();
+  const excluded = new Set<string>([job.authorId, ...(job.excludeUserIds || [])]);
+  const matches = new Map<string, string>();
+  let lastUserId: string | null = task.lastUserId || null;
+
+  followsSnapshot.docs.forEach(doc => {
+    const userId = doc.ref.parent.parent!.id;
+    if (userId !== lastUserId && !excluded.has(userId)) {
+      matches.set(userId, doc.data().hashtag);
+    }
+    lastUserId = userId;
+  });
+
+  // Followers of the author already get the new post notification
+  const candidateIds = [...matches.keys()];
+  for (let i = 0; i < candidateIds.length; i += IN_FILTER_LIMIT) {
+    const authorFollowsSnapshot = await admin.firestore()
+      .collection('follows')
+      .where('followingId', '==', job.authorId)
+      .where('followerId', 'in', candidateIds.slice(i, i + IN_FILTER_LIMIT))
+      .where('isActive', '==', true)
+      .get();
+
+    authorFollowsSnapshot.docs.forEach(doc => matches.delete(doc.data().followerId));
+  }
+
+  return {
+    recipientIds: [...matches.keys()],
+    matchedHashtags: [...matches.values()],
+    cursor: followsSnapshot.size === FANOUT_CONFIG.pageSize
+      ? followsSnapshot.docs[followsSnapshot.size - 1].ref.path
+      : null,
+    lastUserId,
+  };
+}
+
+/**
+ * Move a task from pending to processing. False if another invocation got it first.
+ */
+async function claimTask(taskRef: admin.firestore.DocumentReference): Promise<boolean> {
+  return admin.firestore().runTransaction(async (transaction) => {
+    const taskDoc = await transaction.get(taskRef);
+    if (!taskDoc.exists || taskDoc.data()!.status !== 'pending') {
+      return false;
+    }
+
+    transaction.update(taskRef, {
+      status: 'processing',
+      claimedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+}
+
+/**
+ * Add to the job's counters, mark it completed once every chunk is done,
+ * and mirror the totals onto the post
+ */
+async function updateJobProgress(
+  jobRef: admin.firestore.DocumentReference,
+  increments: Record<string, number>,
+  pagingComplete: boolean
+): Promise<void> {
+  await admin.firestore().runTransaction(async (transaction) => {
+    const jobDoc = await transaction.get(jobRef);
+    const job = jobDoc.data();
+    if (!job) return;
+
+    const postRef = admin.firestore().collection('posts').doc(job.postId);
+    const postDoc = await transaction.get(postRef);
+
+    const next: Record<string, any> = { ...job };
+    Object.entries(increments).forEach(([field, amount]) => {
+      next[field] = (job[field] || 0) + amount;
+    });
+    next.pagingComplete = job.pagingComplete || pagingComplete;
+
+    if (next.status === 'running' && next.pagingComplete && next.chunksCompleted >= next.chunksTotal) {
+      next.status = 'completed';
+      next.completedAt = admin.firestore.FieldValue.serverTimestamp();
+    }
+
+    const update: Record<string, any> = { pagingComplete: next.pagingComplete, status: next.status };
+    Object.keys(increments).forEach(field => {
+      update[field] = next[field];
+    });
+    if (next.completedAt) {
+      update.completedAt = next.completedAt;
+    }
+    transaction.update(jobRef, update);
+
+    if (postDoc.exists) {
+      const progressField = POST_PROGRESS_FIELDS[job.audience as FanoutAudience] || 'followerFanout';
+      transaction.update(postRef, {
+        [progressField]: {
+          jobId: jobRef.id,
+          status: next.status,
+          followersTotal: next.followersTotal,
+          notifiedCount: next.notifiedCount,
+          chunksTotal: next.chunksTotal,
+          chunksCompleted: next.chunksCompleted,
+        },
+      });
+    }
+  });
+}
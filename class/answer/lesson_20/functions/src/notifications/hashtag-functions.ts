@@ -0,0 +1,146 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { requireAuth, createSuccessResponse } from '../utils/auth';
+import { getPushTransport } from './messaging-provider';
+
+/**
+ * FCM topic for a hashtag. Hashtags are \w+ so they are always valid topic names.
+ */
+export function getHashtagTopic(hashtag: string): string {
+  return `hashtag_${hashtag}`;
+}
+
+/**
+ * Follow a hashtag - records the follow and subscribes every device to its topic.
+ * New posts with it reach followers through a fan-out job (see startHashtagFanout).
+ */
+export const followHashtag = functions.https.onCall(async (data, context) => {
+  const uid = requireAuth(context);
+  const hashtag = requireHashtag(data);
+
+  try {
+    await admin.firestore()
+      .collection('users')
+      .doc(uid)
+      .collection('hashtagFollows')
+      .doc(hashtag)
+      .set({
+        hashtag,
+        topic: getHashtagTopic(hashtag),
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+    const tokens = await getDeviceTokens(uid);
+    await updateTopicMembership(tokens, [hashtag], true);
+
+    console.log(`User ${uid} followed #${hashtag} on ${tokens.length} devices`);
+    return createSuccessResponse({ hashtag, following: true });
+  } catch (error) {
+    console.error(`Failed to follow #${hashtag} for ${uid}:`, error);
+    throw new functions.https.HttpsError('internal', 'Failed to follow hashtag');
+  }
+});
+
+/**
+ * Unfollow a hashtag - removes the follow and unsubscribes every device
+ */
+export const unfollowHashtag = functions.https.onCall(async (data, context) => {
+  const uid = requireAuth(context);
+  const hashtag = requireHashtag(data);
+
+  try {
+    await admin.firestore()
+      .collection('users')
+      .doc(uid)
+      .collection('hashtagFollows')
+      .doc(hashtag)
+      .delete();
+
+    const tokens = await getDeviceTokens(uid);
+    await updateTopicMembership(tokens, [hashtag], false);
+
+    console.log(`User ${uid} unfollowed #${hashtag} on ${tokens.length} devices`);
+    return createSuccessResponse({ hashtag, following: false });
+  } catch (error) {
+    console.error(`Failed to unfollow #${hashtag} for ${uid}:`, error);
+    throw new functions.https.HttpsError('internal', 'Failed to unfollow hashtag');
+  }
+});
+
+/**
+ * Get the hashtags a user follows
+ */
+export async function getFollowedHashtags(userId: string): Promise<string[]> {
+  const snapshot = await admin.firestore()
+    .collection('users')
+    .doc(userId)
+    .collection('hashtagFollows')
+    .get();
+
+  return snapshot.docs.map(doc => doc.id);
+}
+
+/**
+ * Subscribe or unsubscribe one device token to all of a user's hashtag topics
+ */
+export async function syncDeviceTopics(
+  userId: string,
+  token: string,
+  subscribe: boolean
+): Promise<void> {
+  try {
+    const hashtags = await getFollowedHashtags(userId);
+    await updateTopicMembership([token], hashtags, subscribe);
+  } catch (error) {
+    console.error(`Failed to sync topics for user ${userId}:`, error);
+  }
+}
+
+// Helper functions
+
+async function getDeviceTokens(userId: string): Promise<string[]> {
+  const snapshot = await admin.firestore()
+    .collection('users')
+    .doc(userId)
+    .collection('devices')
+    .get();
+
+  return snapshot.docs.map(doc => doc.data().token).filter(Boolean);
+}
+
+async function updateTopicMembership(
+  tokens: string[],
+  hashtags: string[],
+  subscribe: boolean
+): Promise<void> {
+  // Only FCM registration tokens can join topics, not browser subscriptions
+  tokens = tokens.filter(token => getPushTransport(token) === 'fcm');
+  if (tokens.length === 0) {
+    return;
+  }
+
+  for (const hashtag of hashtags) {
+    const topic = getHashtagTopic(hashtag);
+    const response = subscribe
+      ? await admin.messaging().subscribeToTopic(tokens, topic)
+      : await admin.messaging().unsubscribeFromTopic(tokens, topic);
+
+    if (response.failureCount > 0) {
+      console.warn(
+        `${response.failureCount} devices failed to ${subscribe ? 'subscribe to' : 'unsubscribe from'} ${topic}`
+      );
+    }
+  }
+}
+
+function requireHashtag(data: any): string {
+  const hashtag = String(data?.hashtag || '').replace(/^#/, '').toLowerCase();
+
+  if (!/^\w{1,100}$/.test(hashtag)) {
+    throw new functions.https.HttpsError(
+      'invalid-argument',
+      'hashtag must contain only letters, numbers and underscores'
+    );
+  }
+  return hashtag;
+}
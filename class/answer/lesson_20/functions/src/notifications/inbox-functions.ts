@@ -0,0 +1,357 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import {
+  CloudFunctionResponse,
+  InboxNotification,
+  NotificationActor,
+  NotificationDayGroup,
+  NotificationInboxPage,
+  NotificationType,
+} from '../types';
+import { requireAuth, createSuccessResponse } from '../utils/auth';
+import { DEFAULT_TIME_ZONE, getZonedDateParts } from '../utils/time-zone';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+
+// Fields in NotificationData.data that identify the user who caused a notification
+const ACTOR_FIELDS: Array<{ id: string; name: string; avatar: string }> = [
+  { id: 'likerId', name: 'likerName', avatar: 'likerAvatar' },
+  { id: 'commenterId', name: 'commenterName', avatar: 'commenterAvatar' },
+  { id: 'followerId', name: 'followerName', avatar: 'followerAvatar' },
+  { id: 'requesterId', name: 'requesterName', avatar: 'requesterAvatar' },
+  { id: 'senderId', name: 'senderName', avatar: 'senderAvatar' },
+  { id: 'authorId', name: 'authorName', avatar: 'authorAvatar' },
+];
+
+/**
+ * Page through the caller's inbox, newest first, grouped by day in their time zone.
+ * Optional filters: types (NotificationType[]) and isRead. Pass the returned
+ * nextCursor back as cursor for the next page.
+ */
+export const getNotifications = functions.https.onCall(async (
+  data,
+  context
+): Promise<CloudFunctionResponse<NotificationInboxPage>> => {
+  const uid = requireAuth(context);
+  const limit = Math.min(Math.max(Number(data?.limit) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const types = parseTypeFilter(data?.types);
+  const isRead = data?.isRead;
+
+  if (isRead !== undefined && typeof isRead !== 'boolean') {
+    throw new functions.https.HttpsError('invalid-argument', 'isRead must be a boolean');
+  }
+
+  try {
+    const userRef = admin.firestore().collection('users').doc(uid);
+    const notificationsRef = userRef.collection('notifications');
+
+    let query: admin.firestore.Query = notificationsRef;
+    if (types.length === 1) {
+      query = query.where('type', '==', types[0]);
+    } else if (types.length > 1) {
+      query = query.where('type', 'in', types);
+    }
+    if (isRead !== undefined) {
+      query = query.where('isRead', '==', isRead);
+    }
+    query = query.orderBy('createdAt', 'desc');
+
+    if (data?.cursor) {
+      const cursorDoc = await notificationsRef.doc(String(data.cursor)).get();
+      if (!cursorDoc.exists) {
+        throw new functions.https.HttpsError('invalid-argument', 'Invalid cursor');
+      }
+      query = query.startAfter(cursorDoc);
+    }
+
+    // One extra document tells us whether another page exists
+    const [snapshot, userDoc] = await Promise.all([
+      query.limit(limit + 1).get(),
+      userRef.get(),
+    ]);
+    const pageDocs = snapshot.docs.slice(0, limit);
+    const hasMore = snapshot.size > limit;
+
+    const userData = userDoc.data() || {};
+    const actorProfiles = await getActorProfiles(pageDocs);
+    const notifications = pageDocs.map(doc => toInboxNotification(doc, actorProfiles));
+
+    return createSuccessResponse({
+      groups: groupByDay(notifications, userData.timeZone || DEFAULT_TIME_ZONE),
+      nextCursor: hasMore ? pageDocs[pageDocs.length - 1].id : null,
+      hasMore,
+      unreadCount: Math.max(0, userData.unreadCount || 0),
+    });
+  } catch (error) {
+    if (error instanceof functions.https.HttpsError) throw error;
+    console.error(`Failed to get notifications for ${uid}:`, error);
+    throw new functions.https.HttpsError('internal', 'Failed to get notifications');
+  }
+});
+
+/**
+ * Mark one inbox notification as read
+ */
+export const markNotificationRead = functions.https.onCall(async (data, context) => {
+  const uid = requireAuth(context);
+  const notificationId = requireNotificationId(data);
+
+  try {
+    const unreadCount = await markInboxRecordRead(uid, notificationId);
+    if (unreadCount === null) {
+      throw new functions.https.HttpsError('not-found', 'Notification not found');
+    }
+
+    return createSuccessResponse({ notificationId, unreadCount });
+  } catch (error) {
+    if (error instanceof functions.https.HttpsError) throw error;
+    console.error(`Failed to mark notification ${notificationId} read for ${uid}:`, error);
+    throw new functions.https.HttpsError('internal', 'Failed to mark notification as read');
+  }
+});
+
+/**
+ * Mark every inbox notification as read
+ */
+export const markAllNotificationsRead = functions.https.onCall(async (data, context) => {
+  const uid = requireAuth(context);
+
+  try {
+    const userRef = admin.firestore().collection('users').doc(uid);
+    const unreadQuery = userRef
+      .collection('notifications')
+      .where('isRead', '==', false)
+      .limit(450); // Stay under the 500 writes per transaction limit
+
+    let markedCount = 0;
+
+    for (;;) {
+      const pageCount = await admin.firestore().runTransaction(async (transaction) => {
+        const [unreadSnapshot, userDoc] = await Promise.all([
+          transaction.get(unreadQuery),
+          transaction.get(userRef),
+        ]);
+
+        unreadSnapshot.docs.forEach(doc => {
+          transaction.update(doc.ref, {
+            isRead: true,
+            readAt: admin.firestore.FieldValue.serverTimestamp(),
+          });
+        });
+
+        const currentCount = Math.max(0, userDoc.data()?.unreadCount || 0);
+        const remaining = unreadSnapshot.size < 450 ? 0 : Math.max(0, currentCount - unreadSnapshot.size);
+        transaction.set(userRef, { unreadCount: remaining }, { merge: true });
+
+        return unreadSnapshot.size;
+      });
+
+      markedCount += pageCount;
+      if (pageCount < 450) break;
+    }
+
+    console.log(`Marked ${markedCount} notifications read for user ${uid}`);
+    return createSuccessResponse({ markedCount, unreadCount: 0 });
+  } catch (error) {
+    console.error(`Failed to mark all notifications read for ${uid}:`, error);
+    throw new functions.https.HttpsError('internal', 'Failed to mark notifications as read');
+  }
+});
+
+/**
+ * Delete one inbox notification
+ */
+export const deleteNotification = functions.https.onCall(async (data, context) => {
+  const uid = requireAuth(context);
+  const notificationId = requireNotificationId(data);
+
+  try {
+    const userRef = admin.firestore().collection('users').doc(uid);
+    const recordRef = userRef.collection('notifications').doc(notificationId);
+
+    const unreadCount = await admin.firestore().runTransaction(async (transaction) => {
+      const [recordDoc, userDoc] = await Promise.all([
+        transaction.get(recordRef),
+        transaction.get(userRef),
+      ]);
+
+      if (!recordDoc.exists) {
+        throw new functions.https.HttpsError('not-found', 'Notification not found');
+      }
+
+      const currentCount = Math.max(0, userDoc.data()?.unreadCount || 0);
+      const newCount = recordDoc.data()!.isRead ? currentCount : Math.max(0, currentCount - 1);
+
+      transaction.delete(recordRef);
+      transaction.set(userRef, { unreadCount: newCount }, { merge: true });
+      return newCount;
+    });
+
+    return createSuccessResponse({ notificationId, unreadCount });
+  } catch (error) {
+    if (error instanceof functions.https.HttpsError) throw error;
+    console.error(`Failed to delete notification ${notificationId} for ${uid}:`, error);
+    throw new functions.https.HttpsError('internal', 'Failed to delete notification');
+  }
+});
+
+/**
+ * Mark one inbox record read and keep the unread badge count in step.
+ * `fields` are written alongside (e.g. the action taken from the push).
+ * Returns the new unread count, or null if the record does not exist.
+ */
+export async function markInboxRecordRead(
+  userId: string,
+  notificationId: string,
+  fields: Record<string, any> = {}
+): Promise<number | null> {
+  const userRef = admin.firestore().collection('users').doc(userId);
+  const recordRef = userRef.collection('notifications').doc(notificationId);
+
+  return admin.firestore().runTransaction(async (transaction) => {
+    const [recordDoc, userDoc] = await Promise.all([
+      transaction.get(recordRef),
+      transaction.get(userRef),
+    ]);
+
+    if (!recordDoc.exists) {
+      return null;
+    }
+
+    const currentCount = Math.max(0, userDoc.data()?.unreadCount || 0);
+    if (recordDoc.data()!.isRead) {
+      if (Object.keys(fields).length > 0) {
+        transaction.update(recordRef, fields);
+      }
+      return currentCount;
+    }
+
+    const newCount = Math.max(0, currentCount - 1);
+    transaction.update(recordRef, {
+      ...fields,
+      isRead: true,
+      readAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    transaction.set(userRef, { unreadCount: newCount }, { merge: true });
+    return newCount;
+  });
+}
+
+// Helper functions
+
+function requireNotificationId(data: any): string {
+  const notificationId = data?.notificationId;
+  if (!notificationId || typeof notificationId !== 'string') {
+    throw new functions.https.HttpsError('invalid-argument', 'Missing required field: notificationId');
+  }
+  return notificationId;
+}
+
+function parseTypeFilter(types: any): NotificationType[] {
+  if (types === undefined || types === null) {
+    return [];
+  }
+
+  const list = Array.isArray(types) ? types : [types];
+  const validTypes = Object.values(NotificationType) as string[];
+  const invalid = list.filter(type => !validTypes.includes(type));
+
+  if (invalid.length > 0 || list.length > 10) {
+    throw new functions.https.HttpsError(
+      'invalid-argument',
+      `types must be up to 10 of: ${validTypes.join(', ')}`
+    );
+  }
+  return list as NotificationType[];
+}
+
+/**
+ * Load current profiles for every actor on the page in one read
+ */
+async function getActorProfiles(
+  docs: admin.firestore.QueryDocumentSnapshot[]
+): Promise<Map<string, NotificationActor>> {
+  const actorIds = new Set<string>();
+  docs.forEach(doc => getRecordActors(doc.data()).forEach(actor => actorIds.add(actor.id)));
+
+  const profiles = new Map<string, NotificationActor>();
+  if (actorIds.size === 0) {
+    return profiles;
+  }
+
+  const userRefs = [...actorIds].map(id => admin.firestore().collection('users').doc(id));
+  const userDocs = await admin.firestore().getAll(...userRefs);
+
+  userDocs.forEach(userDoc => {
+    if (!userDoc.exists) return;
+    const user = userDoc.data()!;
+    profiles.set(userDoc.id, {
+      id: userDoc.id,
+      name: user.displayName,
+      avatar: user.photoURL || null,
+    });
+  });
+
+  return profiles;
+}
+
+/**
+ * Actors as stored on the record: the aggregated list, or the one named in its data
+ */
+function getRecordActors(record: admin.firestore.DocumentData): NotificationActor[] {
+  if (Array.isArray(record.actors) && record.actors.length > 0) {
+    return record.actors;
+  }
+
+  const payload = record.data || {};
+  const fields = ACTOR_FIELDS.find(field => payload[field.id]);
+  return fields
+    ? [{ id: payload[fields.id], name: payload[fields.name], avatar: payload[fields.avatar] || null }]
+    : [];
+}
+
+function toInboxNotification(
+  doc: admin.firestore.QueryDocumentSnapshot,
+  actorProfiles: Map<string, NotificationActor>
+): InboxNotification {
+  const record = doc.data();
+
+  // Prefer the live profile; deleted users keep the name captured at send time
+  const actors = getRecordActors(record).map(actor => actorProfiles.get(actor.id) || actor);
+
+  return {
+    id: doc.id,
+    type: record.type,
+    title: record.title,
+    body: record.body,
+    data: record.data || {},
+    isRead: !!record.isRead,
+    createdAt: record.createdAt?.toDate().toISOString() || new Date(0).toISOString(),
+    actors,
+    actorCount: record.actorCount || actors.length,
+  };
+}
+
+function groupByDay(notifications: InboxNotification[], timeZone: string): NotificationDayGroup[] {
+  const groups: NotificationDayGroup[] = [];
+
+  notifications.forEach(notification => {
+    const parts = getZonedDateParts(new Date(notification.createdAt), timeZone);
+    const date = [
+      parts.year,
+      String(parts.month).padStart(2, '0'),
+      String(parts.day).padStart(2, '0'),
+    ].join('-');
+
+    // Notifications arrive newest first, so each day's entries are contiguous
+    const current = groups[groups.length - 1];
+    if (current && current.date === date) {
+      current.notifications.push(notification);
+    } else {
+      groups.push({ date, notifications: [notification] });
+    }
+  });
+
+  return groups;
+}
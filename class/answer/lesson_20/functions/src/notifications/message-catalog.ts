@@ -0,0 +1,272 @@
+import { formatMessage } from '../utils/message-format';
+
+export const DEFAULT_LOCALE = 'en';
+
+export type MessageCatalog = Record<string, string>;
+
+/**
+ * Notification copy per locale, in ICU message syntax. Keys are
+ * `<messageKey>.<field>` where messageKey defaults to the NotificationType value.
+ * Locales only need the keys they translate; the rest falls back to English.
+ */
+const CATALOGS: Record<string, MessageCatalog> = {
+  en: {
+    'common.someone': 'Someone',
+    'common.there': 'there',
+
+    'new_post.title': 'New Post',
+    'new_post.body': '{authorName} shared a new post',
+    'new_post_curiosity.title': 'See what {authorName} just posted 👀',
+    'new_post_curiosity.body': '{authorName} shared something new. Take a look!',
+    'mention.title': 'You were mentioned',
+    'mention.body': '{authorName} mentioned you in a post',
+    'hashtag_post.title': '#{hashtag}',
+    'hashtag_post.body': '{authorName} posted in #{hashtag}',
+
+    'new_like.title': 'New Like ❤️',
+    'new_like.body': '{likerName} liked your post',
+    'new_like.aggregated': '{others, plural, =0 {{actorName}} =1 {{actorName} and {secondActorName}} other {{actorName} and # others}} liked your post',
+    'comment_like.title': 'New Like ❤️',
+    'comment_like.body': '{likerName} liked your comment',
+    'comment_like.aggregated': '{others, plural, =0 {{actorName}} =1 {{actorName} and {secondActorName}} other {{actorName} and # others}} liked your comment',
+
+    'new_comment.title': 'New Comment 💬',
+    'new_comment.body': '{commenterName} commented on your post',
+    'new_comment.aggregated': '{others, plural, =0 {{actorName}} =1 {{actorName} and {secondActorName}} other {{actorName} and # others}} commented on your post',
+    'comment_reply.title': 'New Reply 💬',
+    'comment_reply.body': '{commenterName} replied to your comment',
+
+    'friend_request.title': 'Friend Request 👋',
+    'friend_request.body': '{requesterName} sent you a friend request',
+    'new_follower.title': 'New Follower 👋',
+    'new_follower.body': '{followerName} started following you',
+    'new_follower.aggregated': '{others, plural, =0 {{actorName}} =1 {{actorName} and {secondActorName}} other {{actorName} and # others}} started following you',
+
+    'new_message.title': 'New Message',
+    'new_message.body': 'You have a new message',
+
+    'system_alert.title': 'System Alert',
+    'system_alert.body': 'You have a system notification',
+    'moderation_review.title': 'Content Flagged for Review',
+    'moderation_review.body': '{contentType, select, comment {Comment} other {Post}} {contentId} needs moderation review',
+    'weekly_report.title': '📊 Weekly Report Available',
+    'weekly_report.body': 'Weekly analytics report is ready for review',
+    'admin_alert.title': '🚨 {alertTitle}',
+    'admin_alert.body': 'System alert: {error}',
+
+    'welcome.title': '🎉 Welcome to SocialHub Pro!',
+    'welcome.body': 'Hi {displayName}! Start connecting with friends.',
+
+    'reminder.title': '🔔 Reminder',
+    'reminder.body': 'You have a reminder',
+    'reminder_social.title': 'Your friends have been busy 👋',
+    'reminder_social.body': 'Catch up on what you missed on SocialHub Pro',
+    'reengagement.title': 'We miss you 👋',
+    'reengagement.body': 'See the latest on SocialHub Pro',
+
+    'action.reply': 'Reply',
+    'action.follow_back': 'Follow back',
+    'action.accept': 'Accept',
+    'action.decline': 'Decline',
+
+    'email.view_post': 'View post',
+    'email.reply': 'Reply',
+    'email.view_profile': 'View profile',
+    'email.view_request': 'View request',
+    'email.open_chat': 'Open chat',
+    'email.view_details': 'View details',
+    'email.get_started': 'Get started',
+    'email.open_app': 'Open SocialHub',
+    'email.footer': 'You can change which emails you receive in Settings > Notifications.',
+  },
+
+  th: {
+    'common.someone': 'มีคน',
+    'common.there': 'คุณ',
+
+    'new_post.title': 'โพสต์ใหม่',
+    'new_post.body': '{authorName} แชร์โพสต์ใหม่',
+    'new_post_curiosity.title': 'ดูสิ่งที่ {authorName} เพิ่งโพสต์ 👀',
+    'new_post_curiosity.body': '{authorName} แชร์อะไรใหม่ ๆ ลองเข้าไปดูสิ!',
+    'mention.title': 'มีคนกล่าวถึงคุณ',
+    'mention.body': '{authorName} กล่าวถึงคุณในโพสต์',
+    'hashtag_post.title': '#{hashtag}',
+    'hashtag_post.body': '{authorName} โพสต์ใน #{hashtag}',
+
+    'new_like.title': 'ถูกใจใหม่ ❤️',
+    'new_like.body': '{likerName} ถูกใจโพสต์ของคุณ',
+    'new_like.aggregated': '{others, plural, =0 {{actorName}} =1 {{actorName} และ {secondActorName}} other {{actorName} และอีก # คน}} ถูกใจโพสต์ของคุณ',
+    'comment_like.title': 'ถูกใจใหม่ ❤️',
+    'comment_like.body': '{likerName} ถูกใจความคิดเห็นของคุณ',
+    'comment_like.aggregated': '{others, plural, =0 {{actorName}} =1 {{actorName} และ {secondActorName}} other {{actorName} และอีก # คน}} ถูกใจความคิดเห็นของคุณ',
+
+    'new_comment.title': 'ความคิดเห็นใหม่ 💬',
+    'new_comment.body': '{commenterName} แสดงความคิดเห็นในโพสต์ของคุณ',
+    'new_comment.aggregated': '{others, plural, =0 {{actorName}} =1 {{actorName} และ {secondActorName}} other {{actorName} และอีก # คน}} แสดงความคิดเห็นในโพสต์ของคุณ',
+    'comment_reply.title': 'การตอบกลับใหม่ 💬',
+    'comment_reply.body': '{commenterName} ตอบกลับความคิดเห็นของคุณ',
+
+    'friend_request.title': 'คำขอเป็นเพื่อน 👋',
+    'friend_request.body': '{requesterName} ส่งคำขอเป็นเพื่อนถึงคุณ',
+    'new_follower.title': 'ผู้ติดตามใหม่ 👋',
+    'new_follower.body': '{followerName} เริ่มติดตามคุณ',
+    'new_follower.aggregated': '{others, plural, =0 {{actorName}} =1 {{actorName} และ {secondActorName}} other {{actorName} และอีก # คน}} เริ่มติดตามคุณ',
+
+    'new_message.title': 'ข้อความใหม่',
+    'new_message.body': 'คุณมีข้อความใหม่',
+
+    'system_alert.title': 'การแจ้งเตือนระบบ',
+    'system_alert.body': 'คุณมีการแจ้งเตือนจากระบบ',
+
+    'welcome.title': '🎉 ยินดีต้อนรับสู่ SocialHub Pro!',
+    'welcome.body': 'สวัสดี {displayName}! เริ่มเชื่อมต่อกับเพื่อน ๆ กันเลย',
+
+    'reminder.title': '🔔 การเตือนความจำ',
+    'reminder.body': 'คุณมีการเตือนความจำ',
+    'reminder_social.title': 'เพื่อน ๆ ของคุณมีความเคลื่อนไหว 👋',
+    'reminder_social.body': 'ดูสิ่งที่คุณพลาดไปบน SocialHub Pro',
+    'reengagement.title': 'คิดถึงคุณนะ 👋',
+    'reengagement.body': 'มาดูสิ่งใหม่ ๆ บน SocialHub Pro กัน',
+
+    'action.reply': 'ตอบกลับ',
+    'action.follow_back': 'ติดตามกลับ',
+    'action.accept': 'ยอมรับ',
+    'action.decline': 'ปฏิเสธ',
+
+    'email.view_post': 'ดูโพสต์',
+    'email.reply': 'ตอบกลับ',
+    'email.view_profile': 'ดูโปรไฟล์',
+    'email.view_request': 'ดูคำขอ',
+    'email.open_chat': 'เปิดแชท',
+    'email.view_details': 'ดูรายละเอียด',
+    'email.get_started': 'เริ่มต้นใช้งาน',
+    'email.open_app': 'เปิด SocialHub',
+    'email.footer': 'คุณเลือกอีเมลที่ต้องการรับได้ที่ การตั้งค่า > การแจ้งเตือน',
+  },
+
+  es: {
+    'common.someone': 'Alguien',
+    'common.there': 'amigo',
+
+    'new_post.title': 'Nueva publicación',
+    'new_post.body': '{authorName} compartió una nueva publicación',
+    'new_post_curiosity.title': 'Mira lo que acaba de publicar {authorName} 👀',
+    'new_post_curiosity.body': '{authorName} compartió algo nuevo. ¡Échale un vistazo!',
+    'mention.title': 'Te mencionaron',
+    'mention.body': '{authorName} te mencionó en una publicación',
+    'hashtag_post.title': '#{hashtag}',
+    'hashtag_post.body': '{authorName} publicó en #{hashtag}',
+
+    'new_like.title': 'Nuevo Me gusta ❤️',
+    'new_like.body': 'A {likerName} le gustó tu publicación',
+    'new_like.aggregated': '{others, plural, =0 {A {actorName} le gustó} =1 {A {actorName} y {secondActorName} les gustó} other {A {actorName} y # personas más les gustó}} tu publicación',
+    'comment_like.title': 'Nuevo me gusta ❤️',
+    'comment_like.body': 'A {likerName} le gustó tu comentario',
+    'comment_like.aggregated': '{others, plural, =0 {A {actorName} le gustó} =1 {A {actorName} y {secondActorName} les gustó} other {A {actorName} y # personas más les gustó}} tu comentario',
+
+    'new_comment.title': 'Nuevo comentario 💬',
+    'new_comment.body': '{commenterName} comentó tu publicación',
+    'new_comment.aggregated': '{others, plural, =0 {{actorName} comentó} =1 {{actorName} y {secondActorName} comentaron} other {{actorName} y # personas más comentaron}} tu publicación',
+    'comment_reply.title': 'Nueva respuesta 💬',
+    'comment_reply.body': '{commenterName} respondió a tu comentario',
+
+    'friend_request.title': 'Solicitud de amistad 👋',
+    'friend_request.body': '{requesterName} te envió una solicitud de amistad',
+    'new_follower.title': 'Nuevo seguidor 👋',
+    'new_follower.body': '{followerName} empezó a seguirte',
+    'new_follower.aggregated': '{others, plural, =0 {{actorName} empezó} =1 {{actorName} y {secondActorName} empezaron} other {{actorName} y # personas más empezaron}} a seguirte',
+
+    'new_message.title': 'Nuevo mensaje',
+    'new_message.body': 'Tienes un mensaje nuevo',
+
+    'system_alert.title': 'Alerta del sistema',
+    'system_alert.body': 'Tienes una notificación del sistema',
+
+    'welcome.title': '🎉 ¡Bienvenido a SocialHub Pro!',
+    'welcome.body': '¡Hola {displayName}! Empieza a conectar con tus amigos.',
+
+    'reminder.title': '🔔 Recordatorio',
+    'reminder.body': 'Tienes un recordatorio',
+    'reminder_social.title': 'Tus amigos han estado activos 👋',
+    'reminder_social.body': 'Ponte al día con lo que te perdiste en SocialHub Pro',
+    'reengagement.title': 'Te echamos de menos 👋',
+    'reengagement.body': 'Mira las novedades en SocialHub Pro',
+
+    'action.reply': 'Responder',
+    'action.follow_back': 'Seguir también',
+    'action.accept': 'Aceptar',
+    'action.decline': 'Rechazar',
+
+    'email.view_post': 'Ver publicación',
+    'email.reply': 'Responder',
+    'email.view_profile': 'Ver perfil',
+    'email.view_request': 'Ver solicitud',
+    'email.open_chat': 'Abrir chat',
+    'email.view_details': 'Ver detalles',
+    'email.get_started': 'Comenzar',
+    'email.open_app': 'Abrir SocialHub',
+    'email.footer': 'Puedes cambiar los correos que recibes en Ajustes > Notificaciones.',
+  },
+};
+
+/**
+ * Admin-edited copy loaded from Firestore (see template-store.ts), checked before CATALOGS
+ */
+let catalogOverrides: Record<string, MessageCatalog> = {};
+
+export function setCatalogOverrides(overrides: Record<string, MessageCatalog>): void {
+  catalogOverrides = overrides;
+}
+
+/**
+ * Map a language setting such as "th-TH" or "es_MX" to a supported locale
+ */
+export function resolveLocale(language?: string | null): string {
+  if (!language) {
+    return DEFAULT_LOCALE;
+  }
+
+  const isSupported = (locale: string) => !!(CATALOGS[locale] || catalogOverrides[locale]);
+  const normalized = language.toLowerCase().replace('_', '-');
+  if (isSupported(normalized)) {
+    return normalized;
+  }
+
+  const base = normalized.split('-')[0];
+  return isSupported(base) ? base : DEFAULT_LOCALE;
+}
+
+export function getSupportedLocales(): string[] {
+  return [...new Set([...Object.keys(CATALOGS), ...Object.keys(catalogOverrides)])];
+}
+
+export function hasMessage(key: string): boolean {
+  return key in CATALOGS[DEFAULT_LOCALE] || key in (catalogOverrides[DEFAULT_LOCALE] || {});
+}
+
+/**
+ * Render a catalog message, falling back to English and then to the key itself.
+ * `draft` messages (keyed like the catalog) take precedence - used for previews.
+ */
+export function translate(
+  locale: string,
+  key: string,
+  args: Record<string, any> = {},
+  draft: MessageCatalog = {}
+): string {
+  const resolved = resolveLocale(locale);
+  const localized = draft[key] ??
+    catalogOverrides[resolved]?.[key] ??
+    CATALOGS[resolved]?.[key];
+  if (localized !== undefined) {
+    return formatMessage(localized, args, resolved);
+  }
+
+  const fallback = catalogOverrides[DEFAULT_LOCALE]?.[key] ?? CATALOGS[DEFAULT_LOCALE][key];
+  if (fallback !== undefined) {
+    return formatMessage(fallback, args, DEFAULT_LOCALE);
+  }
+
+  console.warn(`Missing notification message: ${key}`);
+  return key;
+}
@@ -0,0 +1,149 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import {
+  InMemoryMessagingProvider,
+  PushMessage,
+  findPushMessageError,
+  getPushTransport,
+} from './messaging-provider';
+import { WebPushMessagingProvider, parsePushSubscription } from './web-push-provider';
+
+// The Admin SDK's own pre-send validation; not exported, so loaded by path
+const { validateMessage } = require(
+  path.join(path.dirname(require.resolve('firebase-admin')), 'messaging', 'messaging-internal')
+);
+
+const validMessage: PushMessage = {
+  notification: { title: 'Alice liked your post', body: 'Alice liked your post', imageUrl: 'https://cdn.example.com/a.png' },
+  data: { type: 'new_like', postId: 'post1', link: '/post/post1' },
+  webpush: { fcmOptions: { link: 'https://socialhub.app/post/post1' } },
+};
+
+function createSubscription(): string {
+  const userAgent = crypto.createECDH('prime256v1');
+  return JSON.stringify({
+    endpoint: 'https://push.example.com/send/abc',
+    keys: {
+      p256dh: userAgent.generateKeys().toString('base64url'),
+      auth: crypto.randomBytes(16).toString('base64url'),
+    },
+  });
+}
+
+function createVapidKeys() {
+  const ecdh = crypto.createECDH('prime256v1');
+  const publicKey = ecdh.generateKeys().toString('base64url');
+  return { publicKey, privateKey: ecdh.getPrivateKey().toString('base64url'), subject: 'mailto:push@example.com' };
+}
+
+describe('InMemoryMessagingProvider', () => {
+  let provider: InMemoryMessagingProvider;
+
+  beforeEach(() => {
+    provider = new InMemoryMessagingProvider();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('records a copy of each message with its tokens', async () => {
+    const message = structuredClone(validMessage);
+    const responses = await provider.sendToTokens(message, ['token-a', 'token-b']);
+    message.data!.postId = 'changed';
+
+    expect(responses).toEqual([
+      { success: true, messageId: 'memory-1' },
+      { success: true, messageId: 'memory-2' },
+    ]);
+    expect(provider.sent).toHaveLength(1);
+    expect(provider.sent[0]).toMatchObject({ tokens: ['token-a', 'token-b'], audience: null, dryRun: false });
+    expect(provider.sent[0].message.data!.postId).toBe('post1');
+  });
+
+  it('fails tokens marked with failToken', async () => {
+    provider.failToken('token-b');
+    const responses = await provider.sendToTokens(validMessage, ['token-a', 'token-b']);
+
+    expect(responses[0].success).toBe(true);
+    expect(responses[1]).toMatchObject({
+      success: false,
+      error: { code: 'messaging/registration-token-not-registered' },
+    });
+  });
+
+  it('rejects messages FCM would reject', async () => {
+    const message = { ...validMessage, data: { postId: 'post1', commentId: undefined } } as any;
+
+    await expect(provider.sendToTokens(message, ['token-a'])).rejects.toMatchObject({
+      code: 'messaging/invalid-payload',
+    });
+    expect(provider.sent).toHaveLength(0);
+  });
+});
+
+describe('findPushMessageError', () => {
+  const invalidMessages: Array<[string, PushMessage]> = [
+    ['an undefined data value', { ...validMessage, data: { postId: undefined } as any }],
+    ['a numeric data value', { ...validMessage, data: { count: 3 } as any }],
+    ['a relative image URL', { ...validMessage, notification: { title: 't', imageUrl: '/icons/system.png' } }],
+  ];
+
+  it('accepts what the Admin SDK accepts', () => {
+    expect(findPushMessageError(validMessage)).toBeNull();
+    expect(() => validateMessage({ ...validMessage, token: 'token-a' })).not.toThrow();
+  });
+
+  it.each(invalidMessages)('rejects %s like the Admin SDK does', (_name, message) => {
+    expect(findPushMessageError(message)).not.toBeNull();
+    expect(() => validateMessage({ ...message, token: 'token-a' })).toThrow();
+  });
+
+  it('rejects a relative web push link, which FCM refuses once sent', () => {
+    expect(findPushMessageError({ ...validMessage, webpush: { fcmOptions: { link: '/post/post1' } } })).not.toBeNull();
+  });
+});
+
+describe('getPushTransport', () => {
+  it('sends browser subscriptions with web push and everything else with FCM', () => {
+    expect(getPushTransport(createSubscription())).toBe('webpush');
+    expect(getPushTransport('fcm-registration-token')).toBe('fcm');
+  });
+});
+
+describe('parsePushSubscription', () => {
+  it('keeps only the fields needed to send', () => {
+    const subscription = { ...JSON.parse(createSubscription()), expirationTime: null };
+    expect(parsePushSubscription(subscription)).toEqual({
+      endpoint: subscription.endpoint,
+      keys: subscription.keys,
+    });
+  });
+
+  it('rejects incomplete or non-HTTPS subscriptions', () => {
+    const subscription = JSON.parse(createSubscription());
+    expect(parsePushSubscription({ endpoint: subscription.endpoint })).toBeNull();
+    expect(parsePushSubscription({ ...subscription, endpoint: 'http://push.example.com/send/abc' })).toBeNull();
+    expect(parsePushSubscription('fcm-registration-token')).toBeNull();
+  });
+});
+
+describe('WebPushMessagingProvider', () => {
+  it('encrypts for each subscription without sending on a dry run', async () => {
+    const provider = new WebPushMessagingProvider(createVapidKeys());
+    const fetchSpy = jest.spyOn(global, 'fetch');
+
+    const responses = await provider.sendToTokens(validMessage, [createSubscription()], true);
+
+    expect(responses).toEqual([{ success: true, messageId: 'dry-run' }]);
+    expect(fetchSpy).not.toHaveBeenCalled();
+    fetchSpy.mockRestore();
+  });
+
+  it('leaves tokens that are not subscriptions alone', async () => {
+    const provider = new WebPushMessagingProvider(createVapidKeys());
+
+    const [response] = await provider.sendToTokens(validMessage, ['fcm-registration-token'], true);
+
+    expect(response).toMatchObject({ success: false, error: { code: 'messaging/invalid-argument' } });
+  });
+});
@@ -0,0 +1,170 @@
+import * as admin from 'firebase-admin';
+
+/**
+ * One push as NotificationService builds it, with Android, APNs and web push
+ * sections. FCM sends it as is; other providers read the parts they support.
+ */
+export type PushMessage = Omit<admin.messaging.TokenMessage, 'token'>;
+
+export type PushAudience = { topic: string } | { condition: string };
+
+/**
+ * How a device token is reached: FCM registration tokens (iOS, Android and
+ * FCM web), or a browser PushSubscription stored as JSON, sent with VAPID.
+ */
+export type PushTransport = 'fcm' | 'webpush';
+
+export type MessagingProviders = Partial<Record<PushTransport, MessagingProvider>>;
+
+/**
+ * Result for one token. Error codes use the FCM `messaging/...` names so
+ * invalid token cleanup works the same for every provider.
+ */
+export interface PushSendResponse {
+  success: boolean;
+  messageId?: string;
+  error?: { code: string; message: string };
+}
+
+export interface MessagingProvider {
+  readonly name: string;
+  // Most tokens accepted by one sendToTokens call
+  readonly maxBatchSize: number;
+
+  /**
+   * Send the message to each token. Responses are in token order.
+   */
+  sendToTokens(message: PushMessage, tokens: string[], dryRun?: boolean): Promise<PushSendResponse[]>;
+
+  /**
+   * Send the message to a topic or condition. Returns the message ID.
+   */
+  sendToAudience(message: PushMessage, audience: PushAudience, dryRun?: boolean): Promise<string>;
+}
+
+/**
+ * Errors meaning the token will never work again and its device can be removed
+ */
+export const INVALID_TOKEN_ERROR_CODES = [
+  'messaging/registration-token-not-registered',
+  'messaging/invalid-registration-token',
+];
+
+export function getPushTransport(token: string): PushTransport {
+  return token.startsWith('{') ? 'webpush' : 'fcm';
+}
+
+/**
+ * The checks FCM makes before accepting a message (data values are strings,
+ * image and link URLs are absolute). Returns the first problem, or null.
+ */
+export function findPushMessageError(message: PushMessage): string | null {
+  const invalidData = Object.entries(message.data || {})
+    .find(([, value]) => typeof value !== 'string');
+  if (invalidData) {
+    return `data must only contain string values (${invalidData[0]})`;
+  }
+
+  const imageUrl = message.notification?.imageUrl;
+  if (imageUrl !== undefined && !/^https?:\/\/[^/]/.test(imageUrl)) {
+    return `notification.imageUrl must be a valid URL string (${imageUrl})`;
+  }
+
+  const link = message.webpush?.fcmOptions?.link;
+  if (link !== undefined && !/^https:\/\/[^/]/.test(link)) {
+    return `webpush.fcmOptions.link must be an HTTPS URL (${link})`;
+  }
+
+  return null;
+}
+
+/**
+ * Firebase Cloud Messaging, for every platform
+ */
+export class FcmMessagingProvider implements MessagingProvider {
+  readonly name = 'fcm';
+  readonly maxBatchSize = 500; // sendEachForMulticast limit
+
+  async sendToTokens(message: PushMessage, tokens: string[], dryRun?: boolean): Promise<PushSendResponse[]> {
+    const batchResponse = await admin.messaging().sendEachForMulticast({ ...message, tokens }, dryRun);
+
+    return batchResponse.responses.map(response => ({
+      success: response.success,
+      messageId: response.messageId,
+      error: response.error
+        ? { code: response.error.code, message: response.error.message }
+        : undefined,
+    }));
+  }
+
+  async sendToAudience(message: PushMessage, audience: PushAudience, dryRun?: boolean): Promise<string> {
+    return admin.messaging().send({ ...message, ...audience }, dryRun);
+  }
+}
+
+export interface RecordedPush {
+  message: PushMessage;
+  tokens: string[] | null;
+  audience: PushAudience | null;
+  dryRun: boolean;
+}
+
+/**
+ * Records every push instead of sending it, for Jest and the emulator.
+ * Tokens passed to failToken() fail with the given FCM error code. Messages
+ * FCM would reject are rejected the same way, with messaging/invalid-payload.
+ */
+export class InMemoryMessagingProvider implements MessagingProvider {
+  readonly name = 'memory';
+  readonly maxBatchSize = 500;
+
+  readonly sent: RecordedPush[] = [];
+  private readonly failingTokens = new Map<string, string>();
+  private messageCount = 0;
+
+  async sendToTokens(message: PushMessage, tokens: string[], dryRun?: boolean): Promise<PushSendResponse[]> {
+    this.validate(message);
+    this.record({ message, tokens: [...tokens], audience: null, dryRun: !!dryRun });
+
+    return tokens.map(token => {
+      const errorCode = this.failingTokens.get(token);
+      return errorCode
+        ? { success: false, error: { code: errorCode, message: `Recorded failure for ${token}` } }
+        : { success: true, messageId: this.nextMessageId() };
+    });
+  }
+
+  async sendToAudience(message: PushMessage, audience: PushAudience, dryRun?: boolean): Promise<string> {
+    this.validate(message);
+    this.record({ message, tokens: null, audience, dryRun: !!dryRun });
+    return this.nextMessageId();
+  }
+
+  failToken(token: string, errorCode: string = INVALID_TOKEN_ERROR_CODES[0]): void {
+    this.failingTokens.set(token, errorCode);
+  }
+
+  reset(): void {
+    this.sent.length = 0;
+    this.failingTokens.clear();
+    this.messageCount = 0;
+  }
+
+  private validate(message: PushMessage): void {
+    const problem = findPushMessageError(message);
+    if (problem) {
+      throw Object.assign(new Error(problem), { code: 'messaging/invalid-payload' });
+    }
+  }
+
+  private record(push: RecordedPush): void {
+    // Copy so later changes to the message cannot alter what was "sent"
+    this.sent.push(structuredClone(push));
+    console.log(`[memory messaging] ${push.tokens ? `${push.tokens.length} tokens` : 'audience'}: ${push.message.notification?.title}`);
+  }
+
+  private nextMessageId(): string {
+    this.messageCount++;
+    return `memory-${this.messageCount}`;
+  }
+}
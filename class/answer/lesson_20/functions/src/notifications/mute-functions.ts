@@ -0,0 +1,171 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { MuteKind, NotificationContext } from '../types';
+import { requireAuth, createSuccessResponse } from '../utils/auth';
+
+const MUTE_KINDS: MuteKind[] = ['user', 'post', 'hashtag'];
+const MAX_MUTE_DURATION_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Mute notifications from a user, about a post, or for a hashtag.
+ * Optional durationMinutes makes the mute expire; otherwise it lasts until removed.
+ */
+export const muteNotifications = functions.https.onCall(async (data, context) => {
+  const uid = requireAuth(context);
+  const { kind, targetId } = requireMuteTarget(data);
+  const durationMinutes = data?.durationMinutes;
+
+  let expiresAt: admin.firestore.Timestamp | null = null;
+  if (durationMinutes !== undefined && durationMinutes !== null) {
+    const durationMs = Number(durationMinutes) * 60 * 1000;
+    if (!Number.isFinite(durationMs) || durationMs <= 0 || durationMs > MAX_MUTE_DURATION_MS) {
+      throw new functions.https.HttpsError(
+        'invalid-argument',
+        'durationMinutes must be a positive number of minutes up to one year'
+      );
+    }
+    expiresAt = admin.firestore.Timestamp.fromMillis(Date.now() + durationMs);
+  }
+
+  if (kind === 'user' && targetId === uid) {
+    throw new functions.https.HttpsError('invalid-argument', 'Cannot mute yourself');
+  }
+
+  try {
+    await getMuteRef(uid, kind, targetId).set({
+      kind,
+      targetId,
+      expiresAt,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    console.log(`User ${uid} muted ${kind} ${targetId}`);
+    return createSuccessResponse({
+      kind,
+      targetId,
+      expiresAt: expiresAt ? expiresAt.toDate().toISOString() : null,
+    });
+  } catch (error) {
+    console.error(`Failed to mute ${kind} ${targetId} for ${uid}:`, error);
+    throw new functions.https.HttpsError('internal', 'Failed to mute notifications');
+  }
+});
+
+/**
+ * Remove a mute
+ */
+export const unmuteNotifications = functions.https.onCall(async (data, context) => {
+  const uid = requireAuth(context);
+  const { kind, targetId } = requireMuteTarget(data);
+
+  try {
+    await getMuteRef(uid, kind, targetId).delete();
+
+    console.log(`User ${uid} unmuted ${kind} ${targetId}`);
+    return createSuccessResponse({ kind, targetId, muted: false });
+  } catch (error) {
+    console.error(`Failed to unmute ${kind} ${targetId} for ${uid}:`, error);
+    throw new functions.https.HttpsError('internal', 'Failed to unmute notifications');
+  }
+});
+
+/**
+ * List the caller's active mutes. Expired mutes are cleaned up on the way.
+ */
+export const listMutes = functions.https.onCall(async (data, context) => {
+  const uid = requireAuth(context);
+
+  try {
+    const snapshot = await admin.firestore()
+      .collection('users')
+      .doc(uid)
+      .collection('mutes')
+      .orderBy('createdAt', 'desc')
+      .get();
+
+    const expired = snapshot.docs.filter(doc => isExpired(doc.data()));
+    if (expired.length > 0) {
+      const batch = admin.firestore().batch();
+      expired.forEach(doc => batch.delete(doc.ref));
+      await batch.commit();
+    }
+
+    const mutes = snapshot.docs
+      .filter(doc => !isExpired(doc.data()))
+      .map(doc => {
+        const mute = doc.data();
+        return {
+          kind: mute.kind,
+          targetId: mute.targetId,
+          expiresAt: mute.expiresAt ? mute.expiresAt.toDate().toISOString() : null,
+        };
+      });
+
+    return createSuccessResponse({ mutes });
+  } catch (error) {
+    console.error(`Failed to list mutes for ${uid}:`, error);
+    throw new functions.https.HttpsError('internal', 'Failed to list mutes');
+  }
+});
+
+/**
+ * Whether the user muted the actor, post or any hashtag of a notification.
+ * Reads the candidate mute documents directly, so no query or index is needed.
+ */
+export async function isNotificationMuted(
+  userId: string,
+  notificationContext: NotificationContext
+): Promise<boolean> {
+  const candidates: admin.firestore.DocumentReference[] = [];
+
+  if (notificationContext.actorId) {
+    candidates.push(getMuteRef(userId, 'user', notificationContext.actorId));
+  }
+  if (notificationContext.postId) {
+    candidates.push(getMuteRef(userId, 'post', notificationContext.postId));
+  }
+  (notificationContext.hashtags || []).forEach(hashtag => {
+    candidates.push(getMuteRef(userId, 'hashtag', hashtag.toLowerCase()));
+  });
+
+  if (candidates.length === 0) {
+    return false;
+  }
+
+  const muteDocs = await admin.firestore().getAll(...candidates);
+  return muteDocs.some(doc => doc.exists && !isExpired(doc.data()!));
+}
+
+// Helper functions
+
+function getMuteRef(userId: string, kind: MuteKind, targetId: string): admin.firestore.DocumentReference {
+  return admin.firestore()
+    .collection('users')
+    .doc(userId)
+    .collection('mutes')
+    .doc(`${kind}_${targetId}`);
+}
+
+function isExpired(mute: admin.firestore.DocumentData): boolean {
+  return !!mute.expiresAt && mute.expiresAt.toMillis() <= Date.now();
+}
+
+function requireMuteTarget(data: any): { kind: MuteKind; targetId: string } {
+  const kind = data?.kind;
+  if (!MUTE_KINDS.includes(kind)) {
+    throw new functions.https.HttpsError(
+      'invalid-argument',
+      `Invalid kind. Must be one of: ${MUTE_KINDS.join(', ')}`
+    );
+  }
+
+  let targetId = String(data?.targetId || '');
+  if (kind === 'hashtag') {
+    targetId = targetId.replace(/^#/, '').toLowerCase();
+  }
+
+  if (!targetId || targetId.includes('/') || targetId.length > 128) {
+    throw new functions.https.HttpsError('invalid-argument', 'Missing or invalid targetId');
+  }
+  return { kind, targetId };
+}
@@ -0,0 +1,66 @@
+import { NotificationAction, NotificationType } from '../types';
+import { translate } from './message-catalog';
+
+/**
+ * Action sets, keyed by category id. The apps register the same ids: iOS as
+ * UNNotificationCategory identifiers, Android and web build buttons from the
+ * `actions` in the payload. Each action completes through a callable in
+ * action-functions.ts without opening the app.
+ */
+export const NOTIFICATION_CATEGORIES: Record<string, Array<Omit<NotificationAction, 'title'>>> = {
+  new_message: [
+    { action: 'reply', input: true },
+  ],
+  new_follower: [
+    { action: 'follow_back' },
+  ],
+  friend_request: [
+    { action: 'accept' },
+    { action: 'decline', destructive: true },
+  ],
+};
+
+/**
+ * Category for a notification, or null when it has no actions
+ */
+export function getNotificationCategory(type: NotificationType, data: Record<string, any> = {}): string | null {
+  switch (type) {
+    case NotificationType.NEW_MESSAGE:
+      return data.chatId ? 'new_message' : null;
+    case NotificationType.FRIEND_REQUEST:
+      if (data.action === 'new_follower') {
+        return data.followerId ? 'new_follower' : null;
+      }
+      return data.requestId ? 'friend_request' : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * A category's actions with titles in the given locale
+ */
+export function getNotificationActions(category: string, locale: string): NotificationAction[] {
+  return (NOTIFICATION_CATEGORIES[category] || []).map(action => ({
+    ...action,
+    title: translate(locale, `action.${action.action}`),
+  }));
+}
+
+/**
+ * Read the actions back from a template's data, where they travel as JSON
+ * because FCM data values must be strings
+ */
+export function parseNotificationActions(actions: string | undefined): NotificationAction[] {
+  if (!actions) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(actions);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.warn('Ignoring malformed notification actions:', actions);
+    return [];
+  }
+}
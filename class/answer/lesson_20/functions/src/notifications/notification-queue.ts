@@ -0,0 +1,257 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { isPermanentDeliveryError, notificationService } from './notification-service';
+import { NotificationData, PendingPushData } from '../types';
+import { requireAuthAndRole, createSuccessResponse } from '../utils/auth';
+
+export const RETRY_CONFIG = {
+  maxAttempts: 6,
+  baseDelayMs: 60 * 1000,          // 1 minute
+  maxDelayMs: 6 * 60 * 60 * 1000,  // 6 hours
+  leaseMs: 5 * 60 * 1000,          // how long a worker owns an item
+};
+
+interface PendingNotificationError {
+  attempt: number;
+  error: string;
+  failedAt: admin.firestore.Timestamp;
+}
+
+/**
+ * Exponential backoff with jitter: half the delay is fixed, half is random
+ */
+export function getRetryDelayMs(attempt: number): number {
+  const exponential = Math.min(
+    RETRY_CONFIG.maxDelayMs,
+    RETRY_CONFIG.baseDelayMs * Math.pow(2, Math.max(attempt - 1, 0))
+  );
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+/**
+ * Send due pending notifications. Items are pushes queued by
+ * NotificationService after a failed send, or notifications queued before
+ * that (the whole NotificationData, no template). Failures are rescheduled
+ * with backoff until they run out of attempts, then moved to
+ * deadLetterNotifications; permanent failures go there straight away.
+ */
+export async function processPendingNotifications(): Promise<{
+  sent: number;
+  retried: number;
+  deadLettered: number;
+}> {
+  const result = { sent: 0, retried: 0, deadLettered: 0 };
+  const now = admin.firestore.Timestamp.now();
+
+  // 'processing' items whose lease ran out belong to a worker that died
+  const dueSnapshot = await admin.firestore()
+    .collection('pendingNotifications')
+    .where('status', 'in', ['pending', 'processing'])
+    .where('nextAttemptAt', '<=', now)
+    .orderBy('nextAttemptAt')
+    .limit(50)
+    .get();
+
+  for (const doc of dueSnapshot.docs) {
+    const claimed = await claimPendingNotification(doc.ref);
+    if (!claimed) {
+      continue;
+    }
+
+    const { status, attempts, errors, nextAttemptAt, createdAt, lastError, ...item } = claimed;
+    const attempt = (attempts || 0) + 1;
+
+    try {
+      if (item.template) {
+        await notificationService.retryNotificationPush(
+          item as PendingPushData,
+          attempt >= RETRY_CONFIG.maxAttempts
+        );
+      } else {
+        // A failed push from here queues its own push-only retry
+        await notificationService.sendNotificationToUser(item as NotificationData);
+      }
+
+      // Mark as completed
+      await doc.ref.update({
+        status: 'completed',
+        attempts: attempt,
+        completedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      result.sent++;
+    } catch (error) {
+      const errorHistory: PendingNotificationError[] = [
+        ...(errors || []),
+        {
+          attempt,
+          error: error instanceof Error ? error.message : String(error),
+          failedAt: admin.firestore.Timestamp.now(),
+        },
+      ];
+
+      if (attempt >= RETRY_CONFIG.maxAttempts || isPermanentDeliveryError(error)) {
+        await moveToDeadLetter(doc.ref, { ...claimed, attempts: attempt, errors: errorHistory });
+        result.deadLettered++;
+      } else {
+        await doc.ref.update({
+          status: 'pending',
+          attempts: attempt,
+          errors: errorHistory,
+          lastError: errorHistory[errorHistory.length - 1].error,
+          nextAttemptAt: admin.firestore.Timestamp.fromMillis(Date.now() + getRetryDelayMs(attempt)),
+        });
+        result.retried++;
+      }
+    }
+  }
+
+  console.log(
+    `Processed ${dueSnapshot.size} pending notifications: ` +
+    `${result.sent} sent, ${result.retried} retried, ${result.deadLettered} dead-lettered`
+  );
+  return result;
+}
+
+/**
+ * Admin callable - give items queued before retries existed a nextAttemptAt,
+ * so the queue picks them up. Their old 'failed' status and retryCount become
+ * 'pending' and attempts. Pages by document ID; call again with the returned
+ * cursor until done.
+ */
+export const backfillPendingNotifications = functions.https.onCall(async (data, context) => {
+  const uid = await requireAuthAndRole(context, 'admin');
+  const limit = Math.min(Number(data?.limit) || 200, 500);
+
+  try {
+    let query = admin.firestore()
+      .collection('pendingNotifications')
+      .orderBy(admin.firestore.FieldPath.documentId())
+      .limit(limit);
+
+    if (data?.cursor) {
+      query = query.startAfter(String(data.cursor));
+    }
+
+    const snapshot = await query.get();
+    const legacyDocs = snapshot.docs.filter(doc =>
+      !doc.data().nextAttemptAt && ['pending', 'failed'].includes(doc.data().status)
+    );
+    const batch = admin.firestore().batch();
+
+    legacyDocs.forEach(doc => {
+      const item = doc.data();
+      const attempts = Math.min(item.retryCount || 0, RETRY_CONFIG.maxAttempts - 1);
+
+      batch.update(doc.ref, {
+        status: 'pending',
+        attempts,
+        errors: item.error
+          ? [{ attempt: attempts, error: item.error, failedAt: item.failedAt || admin.firestore.Timestamp.now() }]
+          : [],
+        nextAttemptAt: admin.firestore.Timestamp.now(),
+      });
+    });
+
+    await batch.commit();
+
+    const done = snapshot.size < limit;
+    console.log(`Admin ${uid} backfilled ${legacyDocs.length} pending notifications`);
+    return createSuccessResponse({
+      updated: legacyDocs.length,
+      cursor: done ? null : snapshot.docs[snapshot.size - 1].id,
+      done,
+    });
+  } catch (error) {
+    console.error('Failed to backfill pending notifications:', error);
+    throw new functions.https.HttpsError('internal', 'Failed to backfill pending notifications');
+  }
+});
+
+/**
+ * Admin callable - move dead-lettered notifications back onto the queue
+ */
+export const requeueDeadLetterNotifications = functions.https.onCall(async (data, context) => {
+  const uid = await requireAuthAndRole(context, 'admin');
+  const ids: string[] | undefined = data?.ids;
+  const limit = Math.min(Number(data?.limit) || 100, 500);
+
+  if (ids !== undefined && (!Array.isArray(ids) || ids.length === 0)) {
+    throw new functions.https.HttpsError('invalid-argument', 'ids must be a non-empty array');
+  }
+
+  try {
+    const deadLetterRef = admin.firestore().collection('deadLetterNotifications');
+    const docs = ids
+      ? (await Promise.all(ids.slice(0, limit).map(id => deadLetterRef.doc(id).get())))
+        .filter(doc => doc.exists)
+      : (await deadLetterRef.orderBy('deadLetteredAt').limit(limit).get()).docs;
+
+    const batch = admin.firestore().batch();
+
+    docs.forEach(doc => {
+      const { deadLetteredAt, ...item } = doc.data()!;
+
+      batch.set(admin.firestore().collection('pendingNotifications').doc(doc.id), {
+        ...item,
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: admin.firestore.Timestamp.now(),
+        requeuedAt: admin.firestore.FieldValue.serverTimestamp(),
+        requeuedBy: uid,
+        requeueCount: admin.firestore.FieldValue.increment(1),
+      });
+      batch.delete(doc.ref);
+    });
+
+    await batch.commit();
+
+    console.log(`Admin ${uid} requeued ${docs.length} dead-lettered notifications`);
+    return createSuccessResponse({ requeued: docs.map(doc => doc.id) });
+  } catch (error) {
+    console.error('Failed to requeue dead-lettered notifications:', error);
+    throw new functions.https.HttpsError('internal', 'Failed to requeue notifications');
+  }
+});
+
+// Helper functions
+
+async function claimPendingNotification(
+  ref: admin.firestore.DocumentReference
+): Promise<admin.firestore.DocumentData | null> {
+  return admin.firestore().runTransaction(async (transaction) => {
+    const doc = await transaction.get(ref);
+    const data = doc.data();
+    const now = admin.firestore.Timestamp.now();
+
+    // A missing nextAttemptAt (queued before retries existed) counts as due
+    if (!data ||
+        !['pending', 'processing'].includes(data.status) ||
+        (data.nextAttemptAt && data.nextAttemptAt.toMillis() > now.toMillis())) {
+      return null; // Another worker got here first
+    }
+
+    transaction.update(ref, {
+      status: 'processing',
+      nextAttemptAt: admin.firestore.Timestamp.fromMillis(now.toMillis() + RETRY_CONFIG.leaseMs),
+    });
+    return data;
+  });
+}
+
+async function moveToDeadLetter(
+  ref: admin.firestore.DocumentReference,
+  item: admin.firestore.DocumentData
+): Promise<void> {
+  const { nextAttemptAt, ...rest } = item;
+  const batch = admin.firestore().batch();
+
+  batch.set(admin.firestore().collection('deadLetterNotifications').doc(ref.id), {
+    ...rest,
+    status: 'dead_letter',
+    deadLetteredAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  batch.delete(ref);
+
+  await batch.commit();
+  console.warn(`Notification ${ref.id} moved to dead letter after ${item.attempts} attempts`);
+}
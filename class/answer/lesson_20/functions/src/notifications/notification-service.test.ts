@@ -0,0 +1,232 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { firestoreWrites } from '../testing/firestore-fake';
+import { NotificationType } from '../types';
+import { InMemoryMessagingProvider } from './messaging-provider';
+import {
+  NoDeviceTokensError,
+  NotificationService,
+  PushDeliveryError,
+  isPermanentDeliveryError,
+} from './notification-service';
+
+jest.mock('firebase-admin', () => require('../testing/firestore-fake').mockFirebaseAdmin());
+
+// The Admin SDK's own pre-send validation; not exported, so loaded by path
+const { validateMessage } = require(
+  path.join(path.dirname(require.resolve('firebase-admin')), 'messaging', 'messaging-internal')
+);
+
+const subscription = JSON.stringify({
+  endpoint: 'https://push.example.com/send/abc',
+  keys: {
+    p256dh: crypto.createECDH('prime256v1').generateKeys().toString('base64url'),
+    auth: crypto.randomBytes(16).toString('base64url'),
+  },
+});
+
+const like = {
+  postId: 'post1',
+  likerId: 'user2',
+  likerName: 'Alice',
+  likerAvatar: 'https://cdn.example.com/alice.png',
+};
+
+describe('NotificationService', () => {
+  let fcm: InMemoryMessagingProvider;
+  let webpush: InMemoryMessagingProvider;
+  let service: NotificationService;
+
+  beforeEach(() => {
+    fcm = new InMemoryMessagingProvider();
+    webpush = new InMemoryMessagingProvider();
+    service = new NotificationService({ fcm, webpush });
+    firestoreWrites.length = 0;
+
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('sendNotification', () => {
+    it('routes each token to the provider for its transport', async () => {
+      const template = service.getNotificationTemplate(NotificationType.NEW_LIKE, like);
+
+      const report = await service.sendNotification(
+        { type: 'tokens', value: ['fcm-token-a', subscription, 'fcm-token-b'] },
+        template
+      );
+
+      expect(fcm.sent.map(push => push.tokens)).toEqual([['fcm-token-a', 'fcm-token-b']]);
+      expect(webpush.sent.map(push => push.tokens)).toEqual([[subscription]]);
+      expect(report).toMatchObject({ totalCount: 3, successCount: 3, failureCount: 0 });
+    });
+
+    it('reports subscriptions as failed when web push is not configured', async () => {
+      service = new NotificationService({ fcm });
+      const template = service.getNotificationTemplate(NotificationType.NEW_LIKE, like);
+
+      const report = await service.sendNotification({ type: 'tokens', value: ['fcm-token-a', subscription] }, template);
+
+      expect(fcm.sent).toHaveLength(1);
+      expect(report).toMatchObject({ successCount: 1, failureCount: 1 });
+      expect(report.failures[0]).toMatchObject({ token: subscription, errorCode: 'messaging/provider-not-configured' });
+    });
+  });
+
+  describe('payloads', () => {
+    const send = async (type: NotificationType, data: Record<string, any>, messageKey?: string) => {
+      const template = service.getNotificationTemplate(type, data, 'en', messageKey);
+      await service.sendNotification({ type: 'tokens', value: ['fcm-token-a'] }, template);
+      return fcm.sent[0].message;
+    };
+
+    it('sends post likes without a comment ID', async () => {
+      const message = await send(NotificationType.NEW_LIKE, like);
+
+      expect(message.data).not.toHaveProperty('commentId');
+      expect(() => validateMessage({ ...message, token: 'fcm-token-a' })).not.toThrow();
+    });
+
+    it('sends top-level comments without a parent comment ID', async () => {
+      const message = await send(NotificationType.NEW_COMMENT, {
+        postId: 'post1',
+        commentId: 'comment1',
+        commenterId: 'user2',
+        commenterName: 'Alice',
+        commenterAvatar: 'https://cdn.example.com/alice.png',
+      });
+
+      expect(message.data).not.toHaveProperty('parentCommentId');
+      expect(message.data).toMatchObject({ type: 'new_comment', commentId: 'comment1' });
+      expect(() => validateMessage({ ...message, token: 'fcm-token-a' })).not.toThrow();
+    });
+
+    it('sends replies with their parent comment ID', async () => {
+      const message = await send(NotificationType.NEW_COMMENT, {
+        postId: 'post1',
+        commentId: 'comment2',
+        parentCommentId: 'comment1',
+        commenterId: 'user2',
+        commenterAvatar: 'https://cdn.example.com/alice.png',
+      }, 'comment_reply');
+
+      expect(message.data).toMatchObject({ parentCommentId: 'comment1' });
+      expect(() => validateMessage({ ...message, token: 'fcm-token-a' })).not.toThrow();
+    });
+  });
+
+  describe('quiet hours', () => {
+    it('defers the push without writing unset values', async () => {
+      jest.spyOn(service as any, 'getQuietHoursEnd').mockResolvedValue(new Date('2026-01-11T01:00:00Z'));
+
+      const result = await service.sendNotificationToUser({
+        targetUserId: 'user1',
+        type: NotificationType.SYSTEM_ALERT,
+        data: { alertType: 'maintenance' },
+        priority: 'normal',
+      });
+
+      expect(result.status).toBe('deferred_by_quiet_hours');
+      expect(fcm.sent).toHaveLength(0);
+
+      const scheduled = firestoreWrites.find(write => write.path.startsWith('scheduledNotifications/'));
+      expect(scheduled?.value).toMatchObject({
+        target: { type: 'user', value: 'user1' },
+        options: { priority: 'normal' },
+        status: 'scheduled',
+      });
+      expect(scheduled?.value.template.data).toMatchObject({ type: 'system_alert', notificationId: expect.any(String) });
+
+      const record = firestoreWrites.find(write => write.path.startsWith('users/user1/notifications/'));
+      expect(record?.value).toMatchObject({ deliveryStatus: 'deferred', scheduledNotificationId: result.scheduledId });
+    });
+  });
+
+  describe('inbox records', () => {
+    it('stores the record without unset data values', async () => {
+      const result = await service.sendNotificationToUser({
+        targetUserId: 'user1',
+        type: NotificationType.WELCOME,
+        data: { userId: 'user1', displayName: undefined },
+        priority: 'normal',
+      });
+
+      expect(result.status).toBe('no_devices');
+      const record = firestoreWrites.find(write => write.path.startsWith('users/user1/notifications/'));
+      expect(record?.value).toMatchObject({
+        body: 'Hi there! Start connecting with friends.',
+        data: { userId: 'user1' },
+        deliveryStatus: 'inbox_only',
+      });
+    });
+  });
+
+  describe('email preferences', () => {
+    const canEmail = (type: NotificationType, userData?: Record<string, any>) =>
+      (service as any).checkUserEmailPreferences('user1', userData, type);
+
+    it('does not email announcements or reminders without an opt-in', async () => {
+      await expect(canEmail(NotificationType.SYSTEM_ALERT)).resolves.toBe(false);
+      await expect(canEmail(NotificationType.REMINDER)).resolves.toBe(false);
+      await expect(canEmail(NotificationType.NEW_MESSAGE)).resolves.toBe(true);
+    });
+
+    it('keeps announcements off for profiles saved before the system switch', async () => {
+      const settings = { notifications: { emailNotifications: true, email: { likes: true, comments: true, follows: true, messages: true, posts: true } } };
+      await expect(canEmail(NotificationType.SYSTEM_ALERT, { settings })).resolves.toBe(false);
+      await expect(canEmail(NotificationType.NEW_LIKE, { settings })).resolves.toBe(true);
+    });
+  });
+
+  describe('isPermanentDeliveryError', () => {
+    const failedReport = (...errorCodes: string[]) => ({
+      targetType: 'user',
+      totalCount: errorCodes.length,
+      successCount: 0,
+      failureCount: errorCodes.length,
+      messageIds: [],
+      failures: errorCodes.map(errorCode => ({ token: 'token', errorCode, errorMessage: errorCode })),
+      dryRun: false,
+    });
+
+    it('gives up on users without devices or with only dead tokens', () => {
+      expect(isPermanentDeliveryError(new NoDeviceTokensError('user1'))).toBe(true);
+      expect(isPermanentDeliveryError(new PushDeliveryError(failedReport(
+        'messaging/registration-token-not-registered',
+        'messaging/provider-not-configured'
+      )))).toBe(true);
+    });
+
+    it('retries outages and unknown errors', () => {
+      expect(isPermanentDeliveryError(new PushDeliveryError(failedReport(
+        'messaging/registration-token-not-registered',
+        'messaging/unavailable'
+      )))).toBe(false);
+      expect(isPermanentDeliveryError(new Error('socket hang up'))).toBe(false);
+    });
+  });
+
+  describe('getExperimentAssignment', () => {
+    it('puts re-engagement reminders into the reminder copy experiment', () => {
+      const assignment = service.getExperimentAssignment({
+        targetUserId: 'user1',
+        type: NotificationType.REMINDER,
+        messageKey: 'reengagement',
+        data: { action: 'explore_app' },
+      });
+
+      expect(assignment).toMatchObject({ experimentId: 'reminder_reengagement' });
+      expect(['reengagement', 'reminder_social']).toContain(assignment!.messageKey);
+    });
+
+    it('leaves reminders with the user\'s own copy out', () => {
+      expect(service.getExperimentAssignment({
+        targetUserId: 'user1',
+        type: NotificationType.REMINDER,
+        data: { title: 'Dentist', message: 'At 3pm' },
+      })).toBeNull();
+    });
+  });
+});
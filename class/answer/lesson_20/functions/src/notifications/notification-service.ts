@@ -1,3 +1,4 @@
+import * as crypto from 'crypto';
 import * as admin from 'firebase-admin';
 import * as functions from 'firebase-functions';
 import { 
@@ -6,15 +7,160 @@ import {
   NotificationTarget, 
   NotificationType,
   UserData,
-  NotificationPreferences
+  NotificationPreferences,
+  NotificationActor,
+  NotificationCategoryPreferences,
+  DeliveryReport,
+  UserNotificationResult,
+  UserNotificationStatus,
+  ScheduleRecurrence,
+  NotificationExperiment,
+  NotificationExperimentVariant,
+  ExperimentAssignment,
+  NotificationContext,
+  PendingPushData
 } from '../types';
+import { DEFAULT_TIME_ZONE, getDailyWindowEnd } from '../utils/time-zone';
+import { getNextCronOccurrence } from '../utils/cron';
+import { EmailService } from './email-service';
+import { getLegacyTokens, getUserDevices, removeDevicesByTokens } from './device-functions';
+import { DEFAULT_LOCALE, MessageCatalog, hasMessage, resolveLocale, translate } from './message-catalog';
+import { loadTemplateOverrides } from './template-store';
+import { getNotificationLink, getWebUrl } from './deep-links';
+import { getNotificationActions, getNotificationCategory, parseNotificationActions } from './notification-actions';
+import { isNotificationMuted } from './mute-functions';
+import {
+  FcmMessagingProvider,
+  INVALID_TOKEN_ERROR_CODES,
+  InMemoryMessagingProvider,
+  MessagingProviders,
+  PushMessage,
+  PushSendResponse,
+  PushTransport,
+  getPushTransport,
+} from './messaging-provider';
+import { WebPushMessagingProvider } from './web-push-provider';
 
+/**
+ * Aggregation windows per notification type. Notifications of the same type for
+ * the same target inside the window are folded into one inbox record and push.
+ */
+export const AGGREGATION_CONFIG = {
+  windowMs: {
+    [NotificationType.NEW_LIKE]: 60 * 60 * 1000,
+    [NotificationType.NEW_COMMENT]: 30 * 60 * 1000,
+    [NotificationType.FRIEND_REQUEST]: 60 * 60 * 1000, // new followers only
+  } as Partial<Record<NotificationType, number>>,
+  maxActors: 10,
+};
+
+/**
+ * Email categories used when the user has not set their own. Announcements
+ * and reminders (broadcasts included) are emailed only after an opt-in.
+ */
+export const DEFAULT_EMAIL_PREFERENCES: NotificationCategoryPreferences = {
+  likes: false,
+  comments: false,
+  follows: true,
+  messages: true,
+  posts: false,
+  system: false,
+};
+
+/**
+ * Push frequency caps per notification type. Pushes over the cap in a window
+ * still get an inbox record, just no push. Uncapped types are not listed.
+ */
+export const FREQUENCY_CAPS: Partial<Record<NotificationType, { maxCount: number; windowMs: number }>> = {
+  [NotificationType.NEW_POST]: { maxCount: 10, windowMs: 60 * 60 * 1000 },
+  [NotificationType.NEW_LIKE]: { maxCount: 20, windowMs: 60 * 60 * 1000 },
+  [NotificationType.NEW_COMMENT]: { maxCount: 20, windowMs: 60 * 60 * 1000 },
+  [NotificationType.FRIEND_REQUEST]: { maxCount: 20, windowMs: 60 * 60 * 1000 },
+  [NotificationType.REMINDER]: { maxCount: 5, windowMs: 24 * 60 * 60 * 1000 },
+};
+
+/**
+ * Copy experiments. Users are bucketed by a hash of their uid, so they always
+ * see the same variant. Only notifications rendered from the catalog take part.
+ */
+export const NOTIFICATION_EXPERIMENTS: NotificationExperiment[] = [
+  {
+    id: 'new_post_copy',
+    type: NotificationType.NEW_POST,
+    messageKey: 'new_post',
+    active: true,
+    variants: [
+      { id: 'control', weight: 50 },
+      { id: 'curiosity', weight: 50, messageKey: 'new_post_curiosity' },
+    ],
+  },
+  {
+    id: 'reminder_reengagement',
+    type: NotificationType.REMINDER,
+    messageKey: 'reengagement',
+    active: true,
+    variants: [
+      { id: 'control', weight: 50 },
+      { id: 'social', weight: 50, messageKey: 'reminder_social' },
+    ],
+  },
+];
+
+// Failures that would fail the same way on every retry
+const PERMANENT_FAILURE_CODES = [
+  ...INVALID_TOKEN_ERROR_CODES,
+  'messaging/invalid-argument',
+  'messaging/invalid-payload',
+  'messaging/provider-not-configured',
+];
+
+/**
+ * Thrown when a user has no device to push to
+ */
+export class NoDeviceTokensError extends Error {
+  constructor(userId: string) {
+    super(`No device tokens found for user ${userId}`);
+    this.name = 'NoDeviceTokensError';
+  }
+}
+
+/**
+ * Thrown when no device accepted a push
+ */
+export class PushDeliveryError extends Error {
+  readonly permanent: boolean;
+
+  constructor(readonly report: DeliveryReport) {
+    super(report.failures[0]?.errorMessage || 'No device accepted the push');
+    this.name = 'PushDeliveryError';
+    this.permanent = report.failures.every(failure => PERMANENT_FAILURE_CODES.includes(failure.errorCode));
+  }
+}
+
+/**
+ * Whether retrying the push cannot help (no devices, only dead tokens, a
+ * payload the provider refuses)
+ */
+export function isPermanentDeliveryError(error: unknown): boolean {
+  if (error instanceof NoDeviceTokensError) return true;
+  if (error instanceof PushDeliveryError) return error.permanent;
+  return PERMANENT_FAILURE_CODES.includes((error as any)?.code);
+}
+
+/**
+ * Sends and records notifications. Each device token goes out through the
+ * injected provider for its transport (FCM, or VAPID web push for browser
+ * subscriptions), so tests can use InMemoryMessagingProvider and check the
+ * exact payloads built. Functions use the shared `notificationService`.
+ */
 export class NotificationService {
   
+  constructor(private readonly providers: MessagingProviders = { fcm: new FcmMessagingProvider() }) {}
+  
   /**
    * Send a notification to a specific user or group
    */
-  static async sendNotification(
+  async sendNotification(
     target: NotificationTarget,
     template: NotificationTemplate,
     options: {
@@ -24,16 +170,18 @@ export class NotificationService {
       restrictedPackageName?: string;
       dryRun?: boolean;
     } = {}
-  ): Promise<string> {
+  ): Promise<DeliveryReport> {
     
-    const message: admin.messaging.Message = {
+    const link = template.data?.link;
+    const message: PushMessage = {
       notification: {
         title: template.title,
         body: template.body,
-        imageUrl: template.icon,
+        // FCM only takes absolute image URLs; bundled icons like '/icons/post.png' are left to the app
+        ...(template.icon && /^https?:\/\//.test(template.icon) ? { imageUrl: template.icon } : {}),
       },
       data: {
-        ...template.data,
+        ...this.withoutUnsetValues(template.data || {}),
         type: template.data?.type || 'default',
         timestamp: Date.now().toString(),
       },
@@ -42,10 +190,11 @@ export class NotificationService {
           icon: template.icon || 'ic_notification',
           color: template.color || '#6C63FF',
           sound: template.sound || 'default',
-          priority: options.priority === 'high' ? 'high' : 'normal',
+          priority: options.priority === 'high' ? 'high' : 'default',
           defaultSound: true,
           defaultVibrateTimings: true,
           channelId: this.getNotificationChannelId(template.data?.type),
+          tag: options.collapseKey,
         },
         ttl: options.timeToLive ? options.timeToLive * 1000 : undefined,
         collapseKey: options.collapseKey,
@@ -63,14 +212,20 @@ export class NotificationService {
             category: template.data?.category,
             'content-available': 1,
           },
+          ...(link ? { link } : {}),
         },
         headers: {
           'apns-priority': options.priority === 'high' ? '10' : '5',
           'apns-expiration': options.timeToLive ? 
             String(Math.floor(Date.now() / 1000) + options.timeToLive) : '0',
+          ...(options.collapseKey ? { 'apns-collapse-id': options.collapseKey } : {}),
         },
       },
       webpush: {
+        headers: {
+          Urgency: options.priority === 'high' ? 'high' : 'normal',
+          ...(options.timeToLive ? { TTL: String(options.timeToLive) } : {}),
+        },
         notification: {
           title: template.title,
           body: template.body,
@@ -78,63 +233,97 @@ export class NotificationService {
           badge: template.icon,
           requireInteraction: options.priority === 'high',
           tag: options.collapseKey,
+          actions: parseNotificationActions(template.data?.actions)
+            .map(({ action, title }) => ({ action, title })),
         },
+        // Web push requires an absolute HTTPS URL
         fcmOptions: {
-          link: template.data?.link,
+          link: link ? getWebUrl(link) : undefined,
         },
       },
     };
 
-    // Set target based on type
+    // Resolve the target: device tokens, or a topic/condition the provider fans out
+    let tokens: string[] | null = null;
+    
     switch (target.type) {
       case 'user':
-        const userTokens = await this.getUserTokens(target.value as string);
-        if (userTokens.length > 0) {
-          message.tokens = userTokens;
-        } else {
-          throw new Error('No FCM tokens found for user');
+        tokens = await this.getUserTokens(target.value as string);
+        if (tokens.length === 0) {
+          throw new NoDeviceTokensError(target.value as string);
+        }
+        
+        // Keep the iOS badge in sync with the inbox
+        if (template.badge === undefined) {
+          message.apns!.payload!.aps.badge = await this.getUnreadCount(target.value as string);
         }
-        break;
-      case 'topic':
-        message.topic = target.value as string;
-        break;
-      case 'condition':
-        message.condition = target.value as string;
         break;
       case 'tokens':
-        message.tokens = target.value as string[];
+        tokens = target.value as string[];
         break;
     }
 
     try {
-      let response: string;
+      const report: DeliveryReport = {
+        targetType: target.type,
+        totalCount: 0,
+        successCount: 0,
+        failureCount: 0,
+        messageIds: [],
+        failures: [],
+        dryRun: !!options.dryRun,
+      };
       
-      if (message.tokens) {
-        // Send to multiple tokens
-        const multicastMessage: admin.messaging.MulticastMessage = {
-          ...message,
-          tokens: message.tokens,
-        };
-        
-        const batchResponse = await admin.messaging().sendMulticast(multicastMessage, options.dryRun);
-        response = `Sent to ${batchResponse.successCount}/${batchResponse.responses.length} devices`;
-        
-        // Handle failed tokens
-        if (batchResponse.failureCount > 0) {
-          await this.handleFailedTokens(message.tokens, batchResponse.responses);
+      if (tokens) {
+        for (const [transport, transportTokens] of this.groupTokensByTransport(tokens)) {
+          const provider = this.providers[transport];
+          if (!provider) {
+            // e.g. browser subscriptions while no VAPID keys are configured
+            transportTokens.forEach(token => this.addDeliveryResult(report, {
+              success: false,
+              error: { code: 'messaging/provider-not-configured', message: `No ${transport} provider configured` },
+            }, token));
+            continue;
+          }
+          
+          for (let i = 0; i < transportTokens.length; i += provider.maxBatchSize) {
+            const chunk = transportTokens.slice(i, i + provider.maxBatchSize);
+            const responses = await provider.sendToTokens(message, chunk, options.dryRun);
+            
+            responses.forEach((response, index) => {
+              this.addDeliveryResult(report, response, chunk[index]);
+            });
+            
+            // Handle failed tokens
+            if (responses.some(response => !response.success) && !options.dryRun) {
+              await this.handleFailedTokens(chunk, responses);
+            }
+          }
         }
-        
       } else {
-        // Send to topic or condition
-        response = await admin.messaging().send(message, options.dryRun);
+        // Topics and conditions only exist in FCM
+        if (!this.providers.fcm) {
+          throw new Error(`Sending to a ${target.type} needs the FCM provider`);
+        }
+        const messageId = await this.providers.fcm.sendToAudience(
+          message,
+          target.type === 'topic'
+            ? { topic: target.value as string }
+            : { condition: target.value as string },
+          options.dryRun
+        );
+        this.addDeliveryResult(report, { success: true, messageId });
       }
       
-      console.log('Notification sent successfully:', response);
+      console.log(
+        `Notification delivered to ${report.successCount}/${report.totalCount} ` +
+        `${tokens ? 'devices' : target.type}`
+      );
       
       // Log notification
-      await this.logNotification(target, template, response);
+      await this.logNotification(target, template, report);
       
-      return response;
+      return report;
     } catch (error) {
       console.error('Failed to send notification:', error);
       await this.logNotificationError(target, template, error);
@@ -142,27 +331,91 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Split tokens by the transport that reaches them, keeping their order
+   */
+  private groupTokensByTransport(tokens: string[]): Map<PushTransport, string[]> {
+    const groups = new Map<PushTransport, string[]>();
+    tokens.forEach(token => {
+      const transport = getPushTransport(token);
+      groups.set(transport, [...(groups.get(transport) || []), token]);
+    });
+    return groups;
+  }
+
+  /**
+   * Add one provider send response to a delivery report
+   */
+  private addDeliveryResult(
+    report: DeliveryReport,
+    response: PushSendResponse,
+    token?: string
+  ): void {
+    report.totalCount++;
+    
+    if (response.success) {
+      report.successCount++;
+      if (response.messageId) {
+        report.messageIds.push(response.messageId);
+      }
+    } else {
+      report.failureCount++;
+      report.failures.push({
+        token: token || null,
+        errorCode: response.error?.code || 'unknown',
+        errorMessage: response.error?.message || 'Unknown error',
+      });
+    }
+  }
+
   /**
    * Send notification with user preference checking
    */
-  static async sendNotificationToUser(data: NotificationData): Promise<string> {
+  async sendNotificationToUser(data: NotificationData): Promise<UserNotificationResult> {
     try {
-      // Check user preferences
+      // Render the template in the recipient's language, with any admin edits
+      await loadTemplateOverrides();
+      const locale = await this.getRecipientLocale(data.targetUserId);
+      const experiment = this.getExperimentAssignment(data);
+      const template = this.getNotificationTemplate(
+        data.type,
+        data.data || {},
+        locale,
+        experiment?.messageKey || data.messageKey
+      );
+      
+      // Explicit copy still wins over the catalog
+      if (data.title) template.title = data.title;
+      if (data.body) template.body = data.body;
+      
+      // The variant travels with the push so opens can be attributed
+      if (experiment) {
+        template.data = {
+          ...template.data,
+          experimentId: experiment.experimentId,
+          variantId: experiment.variantId,
+        };
+      }
+      
+      // Check user preferences, including mutes on the actor, post or hashtag
+      const notificationContext = this.getNotificationContext(data);
       const canSendNotification = await this.checkUserNotificationPreferences(
         data.targetUserId,
-        data.type
+        data.type,
+        notificationContext
       );
       
       if (!canSendNotification) {
         console.log(`Notification blocked by user preferences: ${data.targetUserId}`);
-        return 'blocked_by_preferences';
+        
+        // Email has its own opt-in and may still be wanted, once per aggregation window
+        const aggregationKey = this.getAggregationKey(data);
+        if (!aggregationKey || await this.claimAggregatedEmail(data, aggregationKey)) {
+          await this.deliverNotificationEmail(data, { title: template.title, body: template.body }, locale, notificationContext);
+        }
+        return { status: 'blocked_by_preferences' };
       }
       
-      // Get notification template
-      const template = this.getNotificationTemplate(data.type, data.data || {});
-      template.title = data.title;
-      template.body = data.body;
-      
       if (data.icon) template.icon = data.icon;
       if (data.sound) template.sound = data.sound;
       if (data.badge) template.badge = data.badge;
@@ -173,15 +426,112 @@ export class NotificationService {
         value: data.targetUserId,
       };
       
-      // Send notification
-      const response = await this.sendNotification(target, template, {
+      // Fold likes, comments and new followers into one inbox record and push
+      const aggregationKey = this.getAggregationKey(data);
+      const aggregate = aggregationKey
+        ? await this.upsertAggregatedRecord(data, aggregationKey, template, locale)
+        : null;
+      
+      if (aggregate) {
+        if (!aggregate.isNewActor) {
+          console.log(`Actor already aggregated in ${aggregationKey}: ${data.targetUserId}`);
+          return { status: 'already_aggregated' };
+        }
+        template.title = aggregate.title;
+        template.body = aggregate.body;
+      }
+      
+      // One email per aggregate; later actors only update the inbox and push
+      if (!aggregate || aggregate.created) {
+        await this.deliverNotificationEmail(data, { title: template.title, body: template.body }, locale, notificationContext);
+      }
+      
+      // The inbox record is written after sending, so reserve its ID for the push payload
+      const recordId = aggregate?.recordId || admin.firestore()
+        .collection('users')
+        .doc(data.targetUserId)
+        .collection('notifications')
+        .doc().id;
+      template.data = { ...template.data, notificationId: recordId };
+      
+      const storeRecord = (delivery: Record<string, any>) => aggregate
+        ? this.updateNotificationRecordDelivery(data.targetUserId, recordId, delivery)
+        : this.storeNotificationRecord(data, template, delivery, recordId, experiment);
+      
+      const sendOptions = {
         priority: data.priority || 'normal',
-      });
+        collapseKey: aggregationKey || undefined,
+      };
+      
+      // Over the cap the notification stays in the inbox without a push
+      const withinCap = await this.consumeFrequencyCap(data.targetUserId, data.type);
+      if (!withinCap) {
+        console.log(`Push over ${data.type} frequency cap, inbox only: ${data.targetUserId}`);
+        await storeRecord({ deliveryStatus: 'inbox_only', deliveryReason: 'frequency_cap' });
+        return { status: 'capped_by_frequency' };
+      }
+      
+      // Defer to the end of the user's quiet hours instead of waking them up
+      const quietHoursEnd = await this.getQuietHoursEnd(data);
+      if (quietHoursEnd) {
+        const scheduledId = await this.scheduleNotification(target, template, quietHoursEnd, sendOptions);
+        console.log(`Notification deferred by quiet hours until ${quietHoursEnd.toISOString()}: ${data.targetUserId}`);
+        
+        // The inbox record is written now; only the push waits
+        await storeRecord({ deliveryStatus: 'deferred', scheduledNotificationId: scheduledId });
+        return { status: 'deferred_by_quiet_hours', scheduledId };
+      }
+      
+      // The new record is stored after sending, so count it in the badge now
+      if (!aggregate && template.badge === undefined) {
+        template.badge = await this.getUnreadCount(data.targetUserId) + 1;
+      }
+      
+      // Send notification; without a device it stays in the inbox
+      let report: DeliveryReport;
+      try {
+        report = await this.sendNotification(target, template, sendOptions);
+        if (report.successCount === 0) {
+          throw new PushDeliveryError(report);
+        }
+      } catch (error) {
+        if (error instanceof NoDeviceTokensError) {
+          console.log(`No devices, inbox only: ${data.targetUserId}`);
+          await storeRecord({ deliveryStatus: 'inbox_only', deliveryReason: 'no_devices' });
+          return { status: 'no_devices' };
+        }
+        
+        const failedReport = error instanceof PushDeliveryError ? error.report : undefined;
+        const failureDelivery = failedReport
+          ? { delivery: { successCount: 0, failureCount: failedReport.failureCount } }
+          : {};
+        
+        if (isPermanentDeliveryError(error)) {
+          await storeRecord({ deliveryStatus: 'failed', messageId: null, ...failureDelivery });
+          if (failedReport) return { status: 'sent', report: failedReport };
+          throw error;
+        }
+        
+        // Only the push is retried, so the email and frequency cap are not repeated
+        await storeRecord({ deliveryStatus: 'retrying', ...failureDelivery });
+        const retryId = await this.queuePushRetry(
+          { targetUserId: data.targetUserId, notificationId: recordId, template, options: sendOptions },
+          error
+        );
+        return { status: 'retry_scheduled', report: failedReport, retryId };
+      }
       
       // Store notification in database
-      await this.storeNotificationRecord(data, response);
+      await storeRecord({
+        deliveryStatus: 'delivered',
+        messageId: report.messageIds[0] || null,
+        delivery: {
+          successCount: report.successCount,
+          failureCount: report.failureCount,
+        },
+      });
       
-      return response;
+      return { status: 'sent', report };
     } catch (error) {
       console.error('Failed to send notification to user:', error);
       throw error;
@@ -189,70 +539,126 @@ export class NotificationService {
   }
 
   /**
-   * Send bulk notifications efficiently
+   * Resend a push queued by queuePushRetry. Preferences, caps and email were
+   * handled on the first attempt, so only the push is repeated. The inbox
+   * record is updated once the push is delivered or given up on.
+   */
+  async retryNotificationPush(retry: PendingPushData, finalAttempt: boolean): Promise<DeliveryReport> {
+    const target: NotificationTarget = { type: 'user', value: retry.targetUserId };
+    
+    try {
+      const report = await this.sendNotification(target, retry.template, retry.options);
+      if (report.successCount === 0) {
+        throw new PushDeliveryError(report);
+      }
+      
+      await this.updateNotificationRecordDelivery(retry.targetUserId, retry.notificationId, {
+        deliveryStatus: 'delivered',
+        messageId: report.messageIds[0] || null,
+        delivery: {
+          successCount: report.successCount,
+          failureCount: report.failureCount,
+        },
+      });
+      await this.recordExperimentPush(retry.targetUserId, retry.template.data);
+      return report;
+    } catch (error) {
+      if (error instanceof NoDeviceTokensError) {
+        await this.updateNotificationRecordDelivery(retry.targetUserId, retry.notificationId, {
+          deliveryStatus: 'inbox_only',
+          deliveryReason: 'no_devices',
+        });
+      } else if (finalAttempt || isPermanentDeliveryError(error)) {
+        await this.updateNotificationRecordDelivery(retry.targetUserId, retry.notificationId, {
+          deliveryStatus: 'failed',
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Send notifications to many users in batches. Each goes through
+   * sendNotificationToUser, so preferences, mutes, quiet hours and the inbox
+   * apply. A delay between batches throttles large sends (e.g. broadcasts)
+   * to stay within FCM and Firestore quotas.
    */
-  static async sendBulkNotifications(
-    notifications: Array<{
-      target: NotificationTarget;
-      template: NotificationTemplate;
-      options?: any;
-    }>,
-    batchSize: number = 500
+  async sendBulkNotifications(
+    notifications: NotificationData[],
+    batchSize: number = 500,
+    delayBetweenBatchesMs: number = 0
   ): Promise<{
     totalSent: number;
     totalFailed: number;
+    devicesReached: number;
+    devicesFailed: number;
+    statuses: Partial<Record<UserNotificationStatus | 'failed', number>>;
     errors: string[];
   }> {
     
-    let totalSent = 0;
-    let totalFailed = 0;
+    const statuses: Partial<Record<UserNotificationStatus | 'failed', number>> = {};
+    let devicesReached = 0;
+    let devicesFailed = 0;
     const errors: string[] = [];
     
     // Process in batches
     for (let i = 0; i < notifications.length; i += batchSize) {
-      const batch = notifications.slice(i, i + batchSize);
+      if (i > 0 && delayBetweenBatchesMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, delayBetweenBatchesMs));
+      }
       
-      const promises = batch.map(async ({ target, template, options }) => {
-        try {
-          await this.sendNotification(target, template, options);
-          return { success: true };
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          errors.push(errorMessage);
-          return { success: false, error: errorMessage };
-        }
-      });
-
-      const results = await Promise.allSettled(promises);
+      const batch = notifications.slice(i, i + batchSize);
+      const results = await Promise.allSettled(batch.map(data => this.sendNotificationToUser(data)));
       
       results.forEach((result) => {
-        if (result.status === 'fulfilled' && result.value.success) {
-          totalSent++;
-        } else {
-          totalFailed++;
+        if (result.status === 'rejected') {
+          statuses.failed = (statuses.failed || 0) + 1;
+          errors.push(result.reason instanceof Error ? result.reason.message : String(result.reason));
+          return;
+        }
+        
+        // A push every device rejected was not sent
+        const { status, report } = result.value;
+        const outcome = status === 'sent' && !report?.successCount ? 'failed' : status;
+        statuses[outcome] = (statuses[outcome] || 0) + 1;
+        devicesReached += report?.successCount || 0;
+        devicesFailed += report?.failureCount || 0;
+        if (outcome === 'failed') {
+          errors.push(report?.failures[0]?.errorMessage || 'No device accepted the push');
         }
       });
     }
     
-    return { totalSent, totalFailed, errors };
+    return {
+      totalSent: statuses.sent || 0,
+      totalFailed: statuses.failed || 0,
+      devicesReached,
+      devicesFailed,
+      statuses,
+      errors,
+    };
   }
 
   /**
    * Schedule a notification for future delivery
    */
-  static async scheduleNotification(
+  async scheduleNotification(
     target: NotificationTarget,
     template: NotificationTemplate,
     scheduleTime: Date,
-    options?: any
+    options?: any,
+    schedule: { createdBy?: string; recurrence?: ScheduleRecurrence } = {}
   ): Promise<string> {
     
     const scheduledNotification = {
       target,
-      template,
-      options,
+      template: this.toStoredTemplate(template),
+      options: this.withoutUnsetValues(options || {}),
       scheduleTime: admin.firestore.Timestamp.fromDate(scheduleTime),
       status: 'scheduled',
+      createdBy: schedule.createdBy || null,
+      recurrence: schedule.recurrence || null,
+      sendCount: 0,
       createdAt: admin.firestore.FieldValue.serverTimestamp(),
     };
 
@@ -267,7 +673,7 @@ export class NotificationService {
   /**
    * Process scheduled notifications (called by cron job)
    */
-  static async processScheduledNotifications(): Promise<void> {
+  async processScheduledNotifications(): Promise<void> {
     const now = admin.firestore.Timestamp.now();
     
     const scheduledSnapshot = await admin.firestore()
@@ -280,22 +686,54 @@ export class NotificationService {
     for (const doc of scheduledSnapshot.docs) {
       const data = doc.data();
       
+      const recurrence: ScheduleRecurrence | null = data.recurrence || null;
+      
       try {
-        await this.sendNotification(data.target, data.template, data.options);
+        const report = await this.sendNotification(data.target, data.template, data.options);
+        
+        if (recurrence) {
+          await doc.ref.update({
+            ...this.getNextRecurrenceUpdate(recurrence, data.scheduleTime.toDate()),
+            sendCount: admin.firestore.FieldValue.increment(1),
+            successCount: report.successCount,
+            failureCount: report.failureCount,
+            lastSentAt: admin.firestore.FieldValue.serverTimestamp(),
+          });
+          continue;
+        }
         
         // Mark as sent
         await doc.ref.update({
           status: 'sent',
+          sendCount: admin.firestore.FieldValue.increment(1),
+          successCount: report.successCount,
+          failureCount: report.failureCount,
           sentAt: admin.firestore.FieldValue.serverTimestamp(),
         });
         
+        // Pushes deferred by quiet hours count for their experiment once sent
+        if (data.target.type === 'user' && report.successCount > 0) {
+          await this.recordExperimentPush(data.target.value, data.template.data);
+        }
+        
       } catch (error) {
         console.error(`Failed to send scheduled notification ${doc.id}:`, error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        
+        // One failed occurrence should not end the whole series
+        if (recurrence) {
+          await doc.ref.update({
+            ...this.getNextRecurrenceUpdate(recurrence, data.scheduleTime.toDate()),
+            error: errorMessage,
+            failedAt: admin.firestore.FieldValue.serverTimestamp(),
+          });
+          continue;
+        }
         
         // Mark as failed
         await doc.ref.update({
           status: 'failed',
-          error: error instanceof Error ? error.message : String(error),
+          error: errorMessage,
           failedAt: admin.firestore.FieldValue.serverTimestamp(),
         });
       }
@@ -303,18 +741,138 @@ export class NotificationService {
   }
 
   /**
-   * Get notification template based on type
+   * Move a recurring schedule to its next occurrence. Occurrences missed while
+   * the job was not running are skipped rather than sent in a burst.
+   */
+  private getNextRecurrenceUpdate(
+    recurrence: ScheduleRecurrence,
+    lastScheduleTime: Date
+  ): Record<string, any> {
+    const after = new Date(Math.max(Date.now(), lastScheduleTime.getTime()));
+    const next = getNextCronOccurrence(recurrence.cron, after, recurrence.timeZone);
+    
+    if (!next || (recurrence.endsAt && next > recurrence.endsAt.toDate())) {
+      return { status: 'completed', completedAt: admin.firestore.FieldValue.serverTimestamp() };
+    }
+    
+    return { status: 'scheduled', scheduleTime: admin.firestore.Timestamp.fromDate(next) };
+  }
+
+  /**
+   * Pick the user's variant for an active experiment on this notification's
+   * copy. Null when no experiment applies or the caller supplied its own copy.
+   */
+  getExperimentAssignment(data: NotificationData): ExperimentAssignment | null {
+    const payload = data.data || {};
+    if (data.title || data.body || payload.title || payload.message) {
+      return null;
+    }
+    
+    const messageKey = data.messageKey || data.type;
+    const experiment = NOTIFICATION_EXPERIMENTS.find(candidate =>
+      candidate.active && candidate.type === data.type && candidate.messageKey === messageKey
+    );
+    if (!experiment) {
+      return null;
+    }
+    
+    const variant = this.getExperimentVariant(experiment, data.targetUserId);
+    return {
+      experimentId: experiment.id,
+      variantId: variant.id,
+      messageKey: variant.messageKey || experiment.messageKey,
+    };
+  }
+
+  /**
+   * Deterministic weighted bucket from a hash of experiment and uid
+   */
+  getExperimentVariant(
+    experiment: NotificationExperiment,
+    userId: string
+  ): NotificationExperimentVariant {
+    const hash = crypto.createHash('sha256').update(`${experiment.id}:${userId}`).digest();
+    const totalWeight = experiment.variants.reduce((sum, variant) => sum + variant.weight, 0);
+    let bucket = (hash.readUInt32BE(0) / 0x100000000) * totalWeight;
+    
+    for (const variant of experiment.variants) {
+      bucket -= variant.weight;
+      if (bucket < 0) {
+        return variant;
+      }
+    }
+    return experiment.variants[experiment.variants.length - 1];
+  }
+
+  getExperimentVariantRef(
+    experiment: Pick<ExperimentAssignment, 'experimentId' | 'variantId'>
+  ): admin.firestore.DocumentReference {
+    return admin.firestore()
+      .collection('notificationExperiments')
+      .doc(experiment.experimentId)
+      .collection('variants')
+      .doc(experiment.variantId);
+  }
+
+  /**
+   * Get the aggregation key for notifications that should be grouped, or null
+   */
+  getAggregationKey(data: NotificationData): string | null {
+    if (!AGGREGATION_CONFIG.windowMs[data.type] || !this.getAggregationActor(data)) {
+      return null;
+    }
+    
+    const payload = data.data || {};
+    switch (data.type) {
+      case NotificationType.NEW_LIKE:
+        if (data.messageKey === 'comment_like') {
+          return payload.commentId ? `comment_like_${payload.commentId}` : null;
+        }
+        return payload.postId ? `new_like_${payload.postId}` : null;
+      case NotificationType.NEW_COMMENT:
+        // Replies are about one comment, so they are not folded into the post's comments
+        if (data.messageKey === 'comment_reply') return null;
+        return payload.postId ? `new_comment_${payload.postId}` : null;
+      case NotificationType.FRIEND_REQUEST:
+        // Real friend requests need individual accept/decline, only follows are grouped
+        return payload.action === 'new_follower' ? 'new_follower' : null;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Get notification template based on type, rendered in the given locale.
+   * `messageKey` selects a catalog entry other than the type's own (e.g. 'mention');
+   * `draft` copy wins over the catalog, for template previews.
    */
-  static getNotificationTemplate(
+  getNotificationTemplate(
     type: NotificationType, 
-    data: Record<string, any>
+    data: Record<string, any>,
+    locale: string = DEFAULT_LOCALE,
+    messageKey: string = type,
+    draft: MessageCatalog = {}
   ): NotificationTemplate {
     
+    const someone = translate(locale, 'common.someone');
+    const args = {
+      authorName: someone,
+      likerName: someone,
+      commenterName: someone,
+      requesterName: someone,
+      followerName: someone,
+      displayName: translate(locale, 'common.there'),
+      ...this.withoutEmptyValues(data),
+    };
+    const key = hasMessage(`${messageKey}.title`) || `${messageKey}.title` in draft ? messageKey : type;
+    const title = () => translate(locale, `${key}.title`, args, draft);
+    const body = () => translate(locale, `${key}.body`, args, draft);
+    
     const templates: Record<NotificationType, (data: any) => NotificationTemplate> = {
       
       [NotificationType.NEW_POST]: (data) => ({
-        title: 'New Post',
-        body: `${data.authorName || 'Someone'} shared a new post`,
+        title: title(),
+        body: body(),
         icon: data.authorAvatar || '/icons/post.png',
         color: '#6C63FF',
         data: {
@@ -326,48 +884,51 @@ export class NotificationService {
       }),
 
       [NotificationType.NEW_LIKE]: (data) => ({
-        title: 'New Like ❤️',
-        body: `${data.likerName || 'Someone'} liked your post`,
+        title: title(),
+        body: body(),
         icon: data.likerAvatar || '/icons/like.png',
         color: '#FF6B6B',
         data: {
           type: 'new_like',
           postId: data.postId,
+          ...(data.commentId ? { commentId: data.commentId } : {}),
           likerId: data.likerId,
           action: 'view_post',
         },
       }),
 
       [NotificationType.NEW_COMMENT]: (data) => ({
-        title: 'New Comment 💬',
-        body: `${data.commenterName || 'Someone'} commented on your post`,
+        title: title(),
+        body: body(),
         icon: data.commenterAvatar || '/icons/comment.png',
         color: '#4ECDC4',
         data: {
           type: 'new_comment',
           postId: data.postId,
           commentId: data.commentId,
+          ...(data.parentCommentId ? { parentCommentId: data.parentCommentId } : {}), // replies only
           commenterId: data.commenterId,
           action: 'view_post',
         },
       }),
 
       [NotificationType.FRIEND_REQUEST]: (data) => ({
-        title: 'Friend Request 👋',
-        body: `${data.requesterName || 'Someone'} sent you a friend request`,
-        icon: data.requesterAvatar || '/icons/friend.png',
+        title: title(),
+        body: body(),
+        icon: data.requesterAvatar || data.followerAvatar || '/icons/friend.png',
         color: '#45B7D1',
         data: {
           type: 'friend_request',
           requestId: data.requestId,
           requesterId: data.requesterId,
+          followerId: data.followerId,
           action: 'view_friend_requests',
         },
       }),
 
       [NotificationType.NEW_MESSAGE]: (data) => ({
-        title: data.senderName || 'New Message',
-        body: data.messagePreview || 'You have a new message',
+        title: data.senderName || title(),
+        body: data.messagePreview || body(),
         icon: data.senderAvatar || '/icons/message.png',
         color: '#7B68EE',
         data: {
@@ -380,21 +941,22 @@ export class NotificationService {
       }),
 
       [NotificationType.SYSTEM_ALERT]: (data) => ({
-        title: data.title || 'System Alert',
-        body: data.message || 'You have a system notification',
+        title: data.title || title(),
+        body: data.message || body(),
         icon: '/icons/system.png',
         color: '#FFA726',
         data: {
           type: 'system_alert',
           alertId: data.alertId,
+          broadcastId: data.broadcastId,
           severity: data.severity || 'info',
           action: data.action || 'view_notifications',
         },
       }),
 
       [NotificationType.WELCOME]: (data) => ({
-        title: '🎉 Welcome to SocialHub Pro!',
-        body: `Hi ${data.displayName || 'there'}! Start connecting with friends.`,
+        title: title(),
+        body: body(),
         icon: '/icons/welcome.png',
         color: '#6C63FF',
         data: {
@@ -405,13 +967,14 @@ export class NotificationService {
       }),
 
       [NotificationType.REMINDER]: (data) => ({
-        title: data.title || '🔔 Reminder',
-        body: data.message || 'You have a reminder',
+        title: data.title || title(),
+        body: data.message || body(),
         icon: '/icons/reminder.png',
         color: '#FF9800',
         data: {
           type: 'reminder',
           reminderId: data.reminderId,
+          broadcastId: data.broadcastId,
           action: data.action || 'view_reminders',
         },
       }),
@@ -422,52 +985,123 @@ export class NotificationService {
       throw new Error(`Unknown notification template: ${type}`);
     }
 
-    return templateFunction(data);
+    const template = templateFunction(data);
+    
+    // One canonical route per type, shared by every platform payload
+    template.data = { ...template.data, link: getNotificationLink(type, data) };
+    
+    // Action buttons; the category also names the iOS UNNotificationCategory
+    const category = getNotificationCategory(type, data);
+    if (category) {
+      template.data = {
+        ...template.data,
+        category,
+        actions: JSON.stringify(getNotificationActions(category, locale)),
+      };
+    }
+    return template;
   }
 
   /**
-   * Get user's FCM tokens
+   * Get the recipient's locale from their profile settings
    */
-  private static async getUserTokens(userId: string): Promise<string[]> {
+  private async getRecipientLocale(userId: string): Promise<string> {
     try {
       const userDoc = await admin.firestore()
         .collection('users')
         .doc(userId)
         .get();
+      
+      const userData = userDoc.data() as UserData | undefined;
+      return resolveLocale(userData?.settings?.language);
+    } catch (error) {
+      console.error(`Failed to get locale for user ${userId}:`, error);
+      return DEFAULT_LOCALE;
+    }
+  }
 
-      if (!userDoc.exists) {
-        return [];
-      }
+  /**
+   * Drop null/undefined/empty values so template defaults apply
+   */
+  private withoutEmptyValues(data: Record<string, any>): Record<string, any> {
+    return Object.fromEntries(
+      Object.entries(data).filter(([, value]) => value !== undefined && value !== null && value !== '')
+    );
+  }
+
+  /**
+   * Drop null/undefined values; FCM rejects a data map with anything but strings
+   */
+  private withoutUnsetValues(data: Record<string, any>): Record<string, any> {
+    return Object.fromEntries(
+      Object.entries(data).filter(([, value]) => value !== undefined && value !== null)
+    );
+  }
 
-      const userData = userDoc.data() as UserData;
-      return userData.fcmTokens || [];
+  /**
+   * A template Firestore accepts: unset fields and data values are dropped
+   */
+  private toStoredTemplate(template: NotificationTemplate): NotificationTemplate {
+    return this.withoutUnsetValues({
+      ...template,
+      data: this.withoutUnsetValues(template.data || {}),
+    }) as NotificationTemplate;
+  }
+
+  /**
+   * Get the push tokens of all the user's devices, plus any legacy fcmTokens
+   */
+  private async getUserTokens(userId: string): Promise<string[]> {
+    try {
+      const [devices, legacyTokens] = await Promise.all([
+        getUserDevices(userId),
+        getLegacyTokens(userId),
+      ]);
+      return [...new Set([...devices.map(device => device.token), ...legacyTokens].filter(Boolean))];
     } catch (error) {
       console.error(`Failed to get tokens for user ${userId}:`, error);
       return [];
     }
   }
 
+  /**
+   * Get user's notification preferences document
+   */
+  private async getUserNotificationPreferences(
+    userId: string
+  ): Promise<NotificationPreferences | null> {
+    const prefsDoc = await admin.firestore()
+      .collection('users')
+      .doc(userId)
+      .collection('preferences')
+      .doc('notifications')
+      .get();
+
+    return prefsDoc.exists ? prefsDoc.data() as NotificationPreferences : null;
+  }
+
   /**
    * Check user notification preferences
    */
-  private static async checkUserNotificationPreferences(
+  private async checkUserNotificationPreferences(
     userId: string,
-    notificationType: NotificationType
+    notificationType: NotificationType,
+    notificationContext: NotificationContext = {}
   ): Promise<boolean> {
     try {
-      const prefsDoc = await admin.firestore()
-        .collection('users')
-        .doc(userId)
-        .collection('preferences')
-        .doc('notifications')
-        .get();
+      const [prefs, muted] = await Promise.all([
+        this.getUserNotificationPreferences(userId),
+        isNotificationMuted(userId, notificationContext),
+      ]);
 
-      if (!prefsDoc.exists) {
+      if (muted) {
+        return false;
+      }
+
+      if (!prefs) {
         // Default to allow all notifications
         return true;
       }
-
-      const prefs = prefsDoc.data() as NotificationPreferences;
       
       // Check global push notification setting
       if (!prefs.pushNotifications) {
@@ -475,20 +1109,7 @@ export class NotificationService {
       }
       
       // Check specific notification type
-      switch (notificationType) {
-        case NotificationType.NEW_LIKE:
-          return prefs.likes;
-        case NotificationType.NEW_COMMENT:
-          return prefs.comments;
-        case NotificationType.FRIEND_REQUEST:
-          return prefs.follows;
-        case NotificationType.NEW_MESSAGE:
-          return prefs.messages;
-        case NotificationType.NEW_POST:
-          return prefs.posts;
-        default:
-          return true; // Allow system alerts and other types by default
-      }
+      return this.isNotificationTypeEnabled(prefs, notificationType);
     } catch (error) {
       console.error(`Failed to check preferences for user ${userId}:`, error);
       return true; // Default to allow on error
@@ -496,55 +1117,281 @@ export class NotificationService {
   }
 
   /**
-   * Handle failed FCM tokens by removing them from user records
+   * Check user email preferences - same per-type rules as push, with their own switches
+   */
+  private async checkUserEmailPreferences(
+    userId: string,
+    userData: UserData | undefined,
+    notificationType: NotificationType,
+    notificationContext: NotificationContext = {}
+  ): Promise<boolean> {
+    try {
+      const [storedPrefs, muted] = await Promise.all([
+        this.getUserNotificationPreferences(userId),
+        isNotificationMuted(userId, notificationContext),
+      ]);
+      
+      // A mute silences every channel
+      if (muted) {
+        return false;
+      }
+      
+      // The profile's settings.notifications switch turns email off too
+      const profilePrefs = userData?.settings?.notifications;
+      if (profilePrefs?.emailNotifications === false) {
+        return false;
+      }
+      
+      const prefs = storedPrefs || profilePrefs || null;
+      
+      if (!prefs) {
+        return this.isNotificationTypeEnabled(DEFAULT_EMAIL_PREFERENCES, notificationType);
+      }
+      
+      // Check global email notification setting
+      if (!prefs.emailNotifications) {
+        return false;
+      }
+      
+      // Categories the user never set, like `system` on older profiles, keep their default
+      return this.isNotificationTypeEnabled(
+        { ...DEFAULT_EMAIL_PREFERENCES, ...prefs.email },
+        notificationType
+      );
+    } catch (error) {
+      console.error(`Failed to check email preferences for user ${userId}:`, error);
+      return false; // Email is opt-in, don't send on error
+    }
+  }
+
+  /**
+   * Pull the actor, post and hashtags a notification is about out of its data
+   */
+  getNotificationContext(data: NotificationData): NotificationContext {
+    const payload = data.data || {};
+    const actorId = payload.likerId || payload.commenterId || payload.followerId ||
+      payload.requesterId || payload.senderId || payload.authorId;
+    
+    const hashtags: string[] = Array.isArray(payload.hashtags) ? [...payload.hashtags] : [];
+    if (payload.hashtag && !hashtags.includes(payload.hashtag)) {
+      hashtags.push(payload.hashtag);
+    }
+    
+    return {
+      actorId: actorId || undefined,
+      postId: payload.postId || undefined,
+      hashtags,
+    };
+  }
+
+  /**
+   * Map a notification type to its category switch
+   */
+  private isNotificationTypeEnabled(
+    categories: NotificationCategoryPreferences,
+    notificationType: NotificationType
+  ): boolean {
+    switch (notificationType) {
+      case NotificationType.NEW_LIKE:
+        return categories.likes;
+      case NotificationType.NEW_COMMENT:
+        return categories.comments;
+      case NotificationType.FRIEND_REQUEST:
+        return categories.follows;
+      case NotificationType.NEW_MESSAGE:
+        return categories.messages;
+      case NotificationType.NEW_POST:
+        return categories.posts;
+      case NotificationType.SYSTEM_ALERT:
+      case NotificationType.REMINDER:
+        return categories.system !== false; // on unless switched off
+      default:
+        return true; // Allow system alerts and other types by default
+    }
+  }
+
+  /**
+   * Send the email copy of a notification if the user opted in. Never throws.
+   */
+  private async deliverNotificationEmail(
+    data: NotificationData,
+    content: { title: string; body: string },
+    locale: string,
+    notificationContext: NotificationContext = {}
+  ): Promise<void> {
+    try {
+      const userDoc = await admin.firestore()
+        .collection('users')
+        .doc(data.targetUserId)
+        .get();
+      const userData = userDoc.data() as UserData | undefined;
+      
+      const canSendEmail = await this.checkUserEmailPreferences(
+        data.targetUserId,
+        userData,
+        data.type,
+        notificationContext
+      );
+      if (!canSendEmail) {
+        return;
+      }
+      
+      if (!userData?.email) {
+        console.log(`No email address for user ${data.targetUserId}`);
+        return;
+      }
+      
+      await EmailService.sendNotificationEmail(userData.email, data.type, content, data.data || {}, locale);
+    } catch (error) {
+      console.error(`Failed to send notification email to user ${data.targetUserId}:`, error);
+    }
+  }
+
+  /**
+   * Claim the email for an aggregation window when the push is blocked and no
+   * aggregate records the window. Returns false while the window is open.
+   */
+  private async claimAggregatedEmail(data: NotificationData, aggregationKey: string): Promise<boolean> {
+    const windowMs = AGGREGATION_CONFIG.windowMs[data.type]!;
+    const counterRef = admin.firestore()
+      .collection('users')
+      .doc(data.targetUserId)
+      .collection('notificationCounters')
+      .doc(`email_${aggregationKey}`);
+    
+    try {
+      return await admin.firestore().runTransaction(async (transaction) => {
+        const counterDoc = await transaction.get(counterRef);
+        const now = Date.now();
+        const windowEndsAt = counterDoc.data()?.windowEndsAt?.toMillis() || 0;
+        if (now < windowEndsAt) {
+          return false;
+        }
+        
+        transaction.set(counterRef, {
+          aggregationKey,
+          windowEndsAt: admin.firestore.Timestamp.fromMillis(now + windowMs),
+        });
+        return true;
+      });
+    } catch (error) {
+      console.error(`Failed to claim aggregated email for ${data.targetUserId}:`, error);
+      return false; // Email is opt-in, don't send on error
+    }
+  }
+
+  /**
+   * Count a push against the user's frequency cap for this type. Returns false
+   * once the cap for the current window is used up. Counters live in Firestore
+   * so the cap holds across function instances.
+   */
+  private async consumeFrequencyCap(userId: string, type: NotificationType): Promise<boolean> {
+    const cap = FREQUENCY_CAPS[type];
+    if (!cap) {
+      return true;
+    }
+    
+    const counterRef = admin.firestore()
+      .collection('users')
+      .doc(userId)
+      .collection('notificationCounters')
+      .doc(type);
+    
+    try {
+      return await admin.firestore().runTransaction(async (transaction) => {
+        const counterDoc = await transaction.get(counterRef);
+        const counter = counterDoc.data();
+        const now = Date.now();
+        const windowStart = counter?.windowStartedAt?.toMillis() || 0;
+        
+        // Fixed windows: start a new one once the current has elapsed
+        if (!counter || now - windowStart >= cap.windowMs) {
+          transaction.set(counterRef, {
+            type,
+            count: 1,
+            windowStartedAt: admin.firestore.Timestamp.fromMillis(now),
+          });
+          return true;
+        }
+        
+        if ((counter.count || 0) >= cap.maxCount) {
+          return false;
+        }
+        
+        transaction.update(counterRef, {
+          count: admin.firestore.FieldValue.increment(1),
+        });
+        return true;
+      });
+    } catch (error) {
+      // Fail open - a missed cap is better than a missed notification
+      console.error(`Failed to check frequency cap for ${userId}:`, error);
+      return true;
+    }
+  }
+
+  /**
+   * Get the end of the user's current quiet hours window, evaluated in the
+   * time zone stored on their profile. Returns null when the push can go out now.
    */
-  private static async handleFailedTokens(
+  private async getQuietHoursEnd(data: NotificationData): Promise<Date | null> {
+    // High priority system alerts always go through
+    if (data.priority === 'high' && data.type === NotificationType.SYSTEM_ALERT) {
+      return null;
+    }
+    
+    try {
+      const prefs = await this.getUserNotificationPreferences(data.targetUserId);
+      if (!prefs?.quietHours?.enabled) {
+        return null;
+      }
+      
+      const userDoc = await admin.firestore()
+        .collection('users')
+        .doc(data.targetUserId)
+        .get();
+      const userData = userDoc.data() as UserData | undefined;
+      
+      return getDailyWindowEnd(
+        new Date(),
+        prefs.quietHours.startTime,
+        prefs.quietHours.endTime,
+        userData?.timeZone || DEFAULT_TIME_ZONE
+      );
+    } catch (error) {
+      console.error(`Failed to check quiet hours for user ${data.targetUserId}:`, error);
+      return null; // Default to send on error
+    }
+  }
+
+  /**
+   * Handle failed push tokens by removing the devices that hold them
+   */
+  private async handleFailedTokens(
     tokens: string[],
-    responses: admin.messaging.SendResponse[]
+    responses: PushSendResponse[]
   ): Promise<void> {
     const failedTokens: string[] = [];
     
     responses.forEach((response, index) => {
-      if (!response.success) {
-        const error = response.error;
-        if (error?.code === 'messaging/registration-token-not-registered' ||
-            error?.code === 'messaging/invalid-registration-token') {
-          failedTokens.push(tokens[index]);
-        }
+      if (!response.success && INVALID_TOKEN_ERROR_CODES.includes(response.error?.code || '')) {
+        failedTokens.push(tokens[index]);
       }
     });
     
     if (failedTokens.length > 0) {
-      console.log(`Removing ${failedTokens.length} invalid FCM tokens`);
+      console.log(`Removing ${failedTokens.length} invalid push tokens`);
       await this.removeInvalidTokens(failedTokens);
     }
   }
 
   /**
-   * Remove invalid FCM tokens from user records
+   * Remove devices holding invalid push tokens
    */
-  private static async removeInvalidTokens(tokens: string[]): Promise<void> {
+  private async removeInvalidTokens(tokens: string[]): Promise<void> {
     try {
-      // Find users with these tokens and remove them
-      const usersSnapshot = await admin.firestore()
-        .collection('users')
-        .where('fcmTokens', 'array-contains-any', tokens)
-        .get();
-
-      const batch = admin.firestore().batch();
-      
-      usersSnapshot.docs.forEach((doc) => {
-        const userData = doc.data() as UserData;
-        const updatedTokens = userData.fcmTokens?.filter(token => !tokens.includes(token)) || [];
-        
-        batch.update(doc.ref, {
-          fcmTokens: updatedTokens,
-          lastTokenCleanup: admin.firestore.FieldValue.serverTimestamp(),
-        });
-      });
-      
-      await batch.commit();
-      console.log(`Cleaned up tokens from ${usersSnapshot.size} users`);
+      const removed = await removeDevicesByTokens(tokens);
+      console.log(`Removed ${removed} devices with invalid tokens`);
     } catch (error) {
       console.error('Failed to remove invalid tokens:', error);
     }
@@ -553,7 +1400,7 @@ export class NotificationService {
   /**
    * Get notification channel ID based on type
    */
-  private static getNotificationChannelId(type: string): string {
+  private getNotificationChannelId(type: string): string {
     switch (type) {
       case 'new_message':
         return 'messages';
@@ -572,12 +1419,12 @@ export class NotificationService {
   }
 
   /**
-   * Log successful notification
+   * Log a delivery report, including each failed device
    */
-  private static async logNotification(
+  private async logNotification(
     target: NotificationTarget,
     template: NotificationTemplate,
-    response: string
+    report: DeliveryReport
   ): Promise<void> {
     try {
       await admin.firestore().collection('notificationLogs').add({
@@ -587,8 +1434,17 @@ export class NotificationService {
           body: template.body,
           type: template.data?.type,
         },
-        response,
-        status: 'sent',
+        experiment: template.data?.experimentId
+          ? { id: template.data.experimentId, variant: template.data.variantId }
+          : null,
+        status: report.failureCount === 0 ? 'sent' :
+          report.successCount > 0 ? 'partial' : 'failed',
+        totalCount: report.totalCount,
+        successCount: report.successCount,
+        failureCount: report.failureCount,
+        messageIds: report.messageIds,
+        failures: report.failures,
+        dryRun: report.dryRun,
         timestamp: admin.firestore.FieldValue.serverTimestamp(),
       });
     } catch (error) {
@@ -599,7 +1455,7 @@ export class NotificationService {
   /**
    * Log notification error
    */
-  private static async logNotificationError(
+  private async logNotificationError(
     target: NotificationTarget,
     template: NotificationTemplate,
     error: any
@@ -622,32 +1478,311 @@ export class NotificationService {
   }
 
   /**
-   * Store notification record in user's notifications collection
+   * Get the user who triggered an aggregatable notification
+   */
+  private getAggregationActor(
+    data: NotificationData,
+    locale: string = DEFAULT_LOCALE
+  ): NotificationActor | null {
+    const payload = data.data || {};
+    let actor: NotificationActor | null = null;
+    
+    switch (data.type) {
+      case NotificationType.NEW_LIKE:
+        actor = { id: payload.likerId, name: payload.likerName, avatar: payload.likerAvatar };
+        break;
+      case NotificationType.NEW_COMMENT:
+        actor = { id: payload.commenterId, name: payload.commenterName, avatar: payload.commenterAvatar };
+        break;
+      case NotificationType.FRIEND_REQUEST:
+        actor = { id: payload.followerId, name: payload.followerName, avatar: payload.followerAvatar };
+        break;
+    }
+    
+    return actor?.id
+      ? { ...actor, name: actor.name || translate(locale, 'common.someone'), avatar: actor.avatar || null }
+      : null;
+  }
+
+  /**
+   * Build the collapsed body, e.g. "Alice and 12 others liked your post"
+   */
+  private formatAggregatedBody(
+    aggregationKey: string,
+    actors: NotificationActor[],
+    actorCount: number,
+    locale: string
+  ): string {
+    const [first, second] = actors;
+    const messageKey = aggregationKey === 'new_follower'
+      ? 'new_follower'
+      : ['comment_like', 'new_like', 'new_comment'].find(key => aggregationKey.startsWith(`${key}_`)) || 'new_comment';
+    
+    return translate(locale, `${messageKey}.aggregated`, {
+      actorName: first.name,
+      secondActorName: second?.name,
+      others: Math.max(actorCount - 1, 0),
+    });
+  }
+
+  /**
+   * Create or extend the open aggregated inbox record for this key
    */
-  private static async storeNotificationRecord(
+  private async upsertAggregatedRecord(
     data: NotificationData,
-    response: string
+    aggregationKey: string,
+    template: NotificationTemplate,
+    locale: string
+  ): Promise<{
+    recordId: string;
+    title: string;
+    body: string;
+    actorCount: number;
+    isNewActor: boolean;
+    created: boolean;
+  }> {
+    const actor = this.getAggregationActor(data, locale)!;
+    const windowMs = AGGREGATION_CONFIG.windowMs[data.type]!;
+    const userRef = admin.firestore().collection('users').doc(data.targetUserId);
+    const notificationsRef = userRef.collection('notifications');
+    
+    return admin.firestore().runTransaction(async (transaction) => {
+      const now = admin.firestore.Timestamp.now();
+      const openSnapshot = await transaction.get(
+        notificationsRef
+          .where('aggregationKey', '==', aggregationKey)
+          .where('windowEndsAt', '>', now)
+          .limit(1)
+      );
+      
+      if (openSnapshot.empty) {
+        const recordRef = notificationsRef.doc();
+        const body = this.formatAggregatedBody(aggregationKey, [actor], 1, locale);
+        
+        transaction.set(recordRef, {
+          title: template.title,
+          body,
+          type: data.type,
+          data: this.withoutUnsetValues(data.data || {}),
+          isRead: false,
+          aggregationKey,
+          actors: [actor],
+          actorIds: [actor.id],
+          actorCount: 1,
+          windowEndsAt: admin.firestore.Timestamp.fromMillis(now.toMillis() + windowMs),
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        transaction.set(userRef, {
+          unreadCount: admin.firestore.FieldValue.increment(1),
+        }, { merge: true });
+        
+        return { recordId: recordRef.id, title: template.title, body, actorCount: 1, isNewActor: true, created: true };
+      }
+      
+      const recordDoc = openSnapshot.docs[0];
+      const record = recordDoc.data();
+      const isNewActor = !(record.actorIds || []).includes(actor.id);
+      const actorCount = (record.actorCount || 0) + (isNewActor ? 1 : 0);
+      const actors = [
+        actor,
+        ...(record.actors || []).filter((existing: NotificationActor) => existing.id !== actor.id),
+      ].slice(0, AGGREGATION_CONFIG.maxActors);
+      const body = this.formatAggregatedBody(aggregationKey, actors, actorCount, locale);
+      
+      transaction.update(recordDoc.ref, {
+        body,
+        data: { ...record.data, ...this.withoutUnsetValues(data.data || {}) },
+        actors,
+        actorIds: admin.firestore.FieldValue.arrayUnion(actor.id),
+        actorCount,
+        isRead: false,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      
+      // A record the user already read becomes unread again
+      if (record.isRead) {
+        transaction.set(userRef, {
+          unreadCount: admin.firestore.FieldValue.increment(1),
+        }, { merge: true });
+      }
+      
+      return { recordId: recordDoc.id, title: record.title, body, actorCount, isNewActor, created: false };
+    });
+  }
+
+  /**
+   * Get the user's unread inbox count
+   */
+  async getUnreadCount(userId: string): Promise<number> {
+    try {
+      const userDoc = await admin.firestore()
+        .collection('users')
+        .doc(userId)
+        .get();
+      
+      return Math.max(0, userDoc.data()?.unreadCount || 0);
+    } catch (error) {
+      console.error(`Failed to get unread count for user ${userId}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Queue a failed push for processPendingNotifications to retry with backoff
+   */
+  private async queuePushRetry(retry: PendingPushData, error: unknown): Promise<string> {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    // The badge is recounted from the inbox when the retry goes out
+    const { badge, ...template } = retry.template;
+    
+    const docRef = await admin.firestore()
+      .collection('pendingNotifications')
+      .add({
+        ...retry,
+        template: this.toStoredTemplate(template),
+        options: this.withoutUnsetValues(retry.options),
+        status: 'pending',
+        attempts: 0,
+        errors: [],
+        lastError: errorMessage,
+        nextAttemptAt: admin.firestore.Timestamp.now(),
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    
+    console.log(`Push for ${retry.targetUserId} queued for retry after: ${errorMessage}`);
+    return docRef.id;
+  }
+
+  /**
+   * Count a deferred or retried push that went out as an experiment send.
+   * The template's data carries the variant and the inbox record's ID.
+   */
+  private async recordExperimentPush(userId: string, templateData: Record<string, any> = {}): Promise<void> {
+    const { experimentId, variantId, notificationId } = templateData;
+    if (!experimentId || !variantId || !notificationId) {
+      return;
+    }
+    
+    try {
+      const batch = admin.firestore().batch();
+      batch.set(this.getExperimentVariantRef({ experimentId, variantId }), {
+        experimentId,
+        variantId,
+        sentCount: admin.firestore.FieldValue.increment(1),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      }, { merge: true });
+      batch.update(
+        admin.firestore().collection('users').doc(userId).collection('notifications').doc(notificationId),
+        { 'experiment.pushed': true }
+      );
+      await batch.commit();
+    } catch (error) {
+      console.error('Failed to record experiment push:', error);
+    }
+  }
+
+  /**
+   * Record the latest push delivery on an inbox record
+   */
+  private async updateNotificationRecordDelivery(
+    userId: string,
+    recordId: string,
+    delivery: Record<string, any>
   ): Promise<void> {
     try {
       await admin.firestore()
         .collection('users')
-        .doc(data.targetUserId)
+        .doc(userId)
         .collection('notifications')
-        .add({
-          title: data.title,
-          body: data.body,
-          type: data.type,
-          data: data.data || {},
-          isRead: false,
-          createdAt: admin.firestore.FieldValue.serverTimestamp(),
-          messageId: response,
-        });
+        .doc(recordId)
+        .update(delivery);
+    } catch (error) {
+      console.error('Failed to update notification record:', error);
+    }
+  }
+
+  /**
+   * Store notification record in user's notifications collection and bump the unread count
+   */
+  private async storeNotificationRecord(
+    data: NotificationData,
+    template: NotificationTemplate,
+    delivery: Record<string, any>,
+    recordId?: string,
+    experiment?: ExperimentAssignment | null
+  ): Promise<void> {
+    try {
+      const userRef = admin.firestore().collection('users').doc(data.targetUserId);
+      const recordRef = recordId
+        ? userRef.collection('notifications').doc(recordId)
+        : userRef.collection('notifications').doc();
+      const batch = admin.firestore().batch();
+      
+      // Only pushed records count as sends for the variant's open rate;
+      // capped, deferred and retried pushes are counted once they go out
+      if (experiment) {
+        const pushed = delivery.deliveryStatus === 'delivered';
+        delivery = {
+          ...delivery,
+          experiment: { id: experiment.experimentId, variant: experiment.variantId, pushed },
+        };
+        if (pushed) {
+          batch.set(this.getExperimentVariantRef(experiment), {
+            experimentId: experiment.experimentId,
+            variantId: experiment.variantId,
+            sentCount: admin.firestore.FieldValue.increment(1),
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          }, { merge: true });
+        }
+      }
+      
+      batch.set(recordRef, {
+        title: template.title,
+        body: template.body,
+        type: data.type,
+        data: this.withoutUnsetValues(data.data || {}),
+        isRead: false,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        ...delivery,
+      });
+      batch.set(userRef, {
+        unreadCount: admin.firestore.FieldValue.increment(1),
+      }, { merge: true });
+      
+      await batch.commit();
     } catch (error) {
       console.error('Failed to store notification record:', error);
     }
   }
 }
 
+/**
+ * Providers per transport. With MESSAGING_PROVIDER=fcm, FCM sends to every
+ * registration token and VAPID web push to browser subscriptions (once the
+ * VAPID_* keys are set). With memory, both are recorded in one
+ * InMemoryMessagingProvider; the emulator uses memory unless told otherwise.
+ */
+export function createMessagingProviders(
+  name: string = process.env.MESSAGING_PROVIDER || (process.env.FUNCTIONS_EMULATOR === 'true' ? 'memory' : 'fcm')
+): MessagingProviders {
+  switch (name) {
+    case 'fcm':
+      return {
+        fcm: new FcmMessagingProvider(),
+        ...(process.env.VAPID_PUBLIC_KEY ? { webpush: WebPushMessagingProvider.fromEnv() } : {}),
+      };
+    case 'memory': {
+      const memory = new InMemoryMessagingProvider();
+      return { fcm: memory, webpush: memory };
+    }
+    default:
+      throw new Error(`Unknown messaging provider: ${name}`);
+  }
+}
+
+export const notificationService = new NotificationService(createMessagingProviders());
+
 /**
  * Callable Cloud Function for sending notifications
  */
@@ -656,27 +1791,28 @@ export const sendNotification = functions.https.onCall(async (data, context) =>
     throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
   }
 
-  const { targetUserId, type, title, body, notificationData } = data;
+  const { targetUserId, type, title, body, messageKey, notificationData } = data;
   
-  // Validate input
-  if (!targetUserId || !type || !title || !body) {
+  // Validate input - title and body are optional overrides of the localized template
+  if (!targetUserId || !type) {
     throw new functions.https.HttpsError(
       'invalid-argument', 
-      'Missing required fields: targetUserId, type, title, body'
+      'Missing required fields: targetUserId, type'
     );
   }
   
   try {
-    const response = await NotificationService.sendNotificationToUser({
+    const result = await notificationService.sendNotificationToUser({
       targetUserId,
       type,
       title,
       body,
+      messageKey,
       data: notificationData || {},
       priority: data.priority || 'normal',
     });
     
-    return { success: true, response };
+    return { success: true, status: result.status, report: result.report };
   } catch (error) {
     console.error('Send notification error:', error);
     throw new functions.https.HttpsError('internal', 'Failed to send notification');
@@ -0,0 +1,63 @@
+import { firestoreWrites } from '../testing/firestore-fake';
+import { createScheduledNotification } from './schedule-functions';
+
+jest.mock('firebase-admin', () => require('../testing/firestore-fake').mockFirebaseAdmin());
+
+const context = { auth: { uid: 'user1' } };
+
+describe('createScheduledNotification', () => {
+  beforeEach(() => {
+    firestoreWrites.length = 0;
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('schedules a one-off reminder with the caller\'s copy', async () => {
+    const sendAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+
+    const response = await createScheduledNotification.run({
+      title: 'Dentist',
+      message: 'At 3pm <bring forms>',
+      sendAt,
+    }, context);
+
+    expect(response.data).toMatchObject({ scheduleTime: sendAt, recurrence: null });
+    expect(firestoreWrites).toHaveLength(1);
+    expect(firestoreWrites[0].path).toBe(`scheduledNotifications/${response.data.scheduledId}`);
+    expect(firestoreWrites[0].value).toMatchObject({
+      target: { type: 'user', value: 'user1' },
+      template: {
+        title: 'Dentist',
+        body: 'At 3pm <bring forms>',
+        data: { type: 'reminder' },
+      },
+      options: { priority: 'normal' },
+      status: 'scheduled',
+      createdBy: 'user1',
+    });
+  });
+
+  it('schedules a recurring reminder in the given time zone', async () => {
+    const response = await createScheduledNotification.run({
+      title: 'Stretch',
+      message: 'Time for a break',
+      cron: '0 9 * * 1-5',
+      timeZone: 'Asia/Bangkok',
+    }, context);
+
+    expect(response.data.recurrence).toMatchObject({ cron: '0 9 * * 1-5', timeZone: 'Asia/Bangkok', endsAt: null });
+    expect(firestoreWrites[0].value.recurrence).toMatchObject({ cron: '0 9 * * 1-5', timeZone: 'Asia/Bangkok' });
+  });
+
+  it('rejects a schedule with both sendAt and cron', async () => {
+    await expect(createScheduledNotification.run({
+      title: 'Stretch',
+      message: 'Time for a break',
+      sendAt: new Date(Date.now() + 60 * 1000).toISOString(),
+      cron: '0 9 * * *',
+    }, context)).rejects.toMatchObject({ code: 'invalid-argument' });
+    expect(firestoreWrites).toHaveLength(0);
+  });
+});
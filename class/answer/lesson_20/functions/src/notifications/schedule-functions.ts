@@ -0,0 +1,274 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { NotificationType, ScheduleRecurrence, ScheduledNotificationData } from '../types';
+import { requireAuth, createSuccessResponse, getUserData, isAdmin } from '../utils/auth';
+import { getCronExpressionError, getNextCronOccurrence } from '../utils/cron';
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from '../utils/time-zone';
+import { notificationService } from './notification-service';
+
+const MAX_ACTIVE_SCHEDULES_PER_USER = 50;
+
+/**
+ * Schedule a reminder for the calling user, once (sendAt) or recurring (cron).
+ * Admins may schedule for another user with targetUserId.
+ */
+export const createScheduledNotification = functions.https.onCall(async (data, context) => {
+  const uid = requireAuth(context);
+  const { targetUserId } = data || {};
+
+  // Pushes show the copy verbatim, so it is not HTML-escaped
+  const title = typeof data?.title === 'string' ? data.title.trim() : '';
+  const message = typeof data?.message === 'string' ? data.message.trim() : '';
+
+  if (!title || !message) {
+    throw new functions.https.HttpsError('invalid-argument', 'Missing required fields: title, message');
+  }
+
+  if (title.length > 100 || message.length > 250) {
+    throw new functions.https.HttpsError('invalid-argument', 'title or message too long');
+  }
+
+  const targetId = targetUserId || uid;
+  if (targetId !== uid && !(await isAdmin(uid))) {
+    throw new functions.https.HttpsError('permission-denied', 'Can only schedule notifications for yourself');
+  }
+
+  const timing = await resolveSchedule(data, targetId);
+
+  try {
+    const activeSnapshot = await admin.firestore()
+      .collection('scheduledNotifications')
+      .where('createdBy', '==', uid)
+      .where('status', '==', 'scheduled')
+      .count()
+      .get();
+
+    if (activeSnapshot.data().count >= MAX_ACTIVE_SCHEDULES_PER_USER) {
+      throw new functions.https.HttpsError(
+        'resource-exhausted',
+        `At most ${MAX_ACTIVE_SCHEDULES_PER_USER} scheduled notifications allowed`
+      );
+    }
+
+    const template = notificationService.getNotificationTemplate(NotificationType.REMINDER, {
+      title,
+      message,
+    });
+
+    const scheduledId = await notificationService.scheduleNotification(
+      { type: 'user', value: targetId },
+      template,
+      timing.scheduleTime,
+      { priority: 'normal' },
+      { createdBy: uid, recurrence: timing.recurrence || undefined }
+    );
+
+    return createSuccessResponse({
+      scheduledId,
+      scheduleTime: timing.scheduleTime.toISOString(),
+      recurrence: timing.recurrence,
+    });
+  } catch (error) {
+    if (error instanceof functions.https.HttpsError) throw error;
+    console.error(`Failed to schedule notification for ${uid}:`, error);
+    throw new functions.https.HttpsError('internal', 'Failed to schedule notification');
+  }
+});
+
+/**
+ * Cancel a pending (or recurring) scheduled notification the caller created
+ */
+export const cancelScheduledNotification = functions.https.onCall(async (data, context) => {
+  const uid = requireAuth(context);
+  const scheduledId = requireScheduledId(data);
+
+  try {
+    const scheduledRef = admin.firestore().collection('scheduledNotifications').doc(scheduledId);
+
+    await admin.firestore().runTransaction(async (transaction) => {
+      const scheduledDoc = await transaction.get(scheduledRef);
+      requireOwnedPendingSchedule(scheduledDoc, uid);
+
+      transaction.update(scheduledRef, {
+        status: 'cancelled',
+        cancelledAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+
+    console.log(`Scheduled notification ${scheduledId} cancelled by ${uid}`);
+    return createSuccessResponse({ scheduledId, status: 'cancelled' });
+  } catch (error) {
+    if (error instanceof functions.https.HttpsError) throw error;
+    console.error(`Failed to cancel scheduled notification ${scheduledId}:`, error);
+    throw new functions.https.HttpsError('internal', 'Failed to cancel scheduled notification');
+  }
+});
+
+/**
+ * Move a scheduled notification to a new time, or change its recurrence
+ */
+export const rescheduleScheduledNotification = functions.https.onCall(async (data, context) => {
+  const uid = requireAuth(context);
+  const scheduledId = requireScheduledId(data);
+
+  try {
+    const scheduledRef = admin.firestore().collection('scheduledNotifications').doc(scheduledId);
+    const existingDoc = await scheduledRef.get();
+    const existing = requireOwnedPendingSchedule(existingDoc, uid);
+    // Callable schedules always target a single user
+    const timing = await resolveSchedule(data, existing.target.value as string);
+
+    await admin.firestore().runTransaction(async (transaction) => {
+      // Re-check: it may have been sent or cancelled in the meantime
+      requireOwnedPendingSchedule(await transaction.get(scheduledRef), uid);
+
+      transaction.update(scheduledRef, {
+        scheduleTime: admin.firestore.Timestamp.fromDate(timing.scheduleTime),
+        recurrence: timing.recurrence,
+        rescheduledAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+
+    return createSuccessResponse({
+      scheduledId,
+      scheduleTime: timing.scheduleTime.toISOString(),
+      recurrence: timing.recurrence,
+    });
+  } catch (error) {
+    if (error instanceof functions.https.HttpsError) throw error;
+    console.error(`Failed to reschedule notification ${scheduledId}:`, error);
+    throw new functions.https.HttpsError('internal', 'Failed to reschedule notification');
+  }
+});
+
+/**
+ * List the caller's pending scheduled notifications, soonest first
+ */
+export const listScheduledNotifications = functions.https.onCall(async (data, context) => {
+  const uid = requireAuth(context);
+  const limit = Math.min(Math.max(Number(data?.limit) || 20, 1), MAX_ACTIVE_SCHEDULES_PER_USER);
+
+  try {
+    const snapshot = await admin.firestore()
+      .collection('scheduledNotifications')
+      .where('createdBy', '==', uid)
+      .where('status', '==', 'scheduled')
+      .orderBy('scheduleTime', 'asc')
+      .limit(limit)
+      .get();
+
+    const scheduled = snapshot.docs.map(doc => {
+      const item = { id: doc.id, ...doc.data() } as ScheduledNotificationData;
+      return {
+        id: item.id,
+        title: item.template.title,
+        body: item.template.body,
+        targetUserId: item.target.value,
+        scheduleTime: item.scheduleTime.toDate().toISOString(),
+        recurrence: item.recurrence ? {
+          cron: item.recurrence.cron,
+          timeZone: item.recurrence.timeZone,
+          endsAt: item.recurrence.endsAt?.toDate().toISOString() || null,
+        } : null,
+        sendCount: item.sendCount || 0,
+      };
+    });
+
+    return createSuccessResponse({ scheduled });
+  } catch (error) {
+    console.error(`Failed to list scheduled notifications for ${uid}:`, error);
+    throw new functions.https.HttpsError('internal', 'Failed to list scheduled notifications');
+  }
+});
+
+// Helper functions
+
+function requireScheduledId(data: any): string {
+  const scheduledId = data?.scheduledId;
+  if (!scheduledId || typeof scheduledId !== 'string') {
+    throw new functions.https.HttpsError('invalid-argument', 'Missing required field: scheduledId');
+  }
+  return scheduledId;
+}
+
+function requireOwnedPendingSchedule(
+  doc: admin.firestore.DocumentSnapshot,
+  uid: string
+): ScheduledNotificationData {
+  if (!doc.exists) {
+    throw new functions.https.HttpsError('not-found', 'Scheduled notification not found');
+  }
+
+  const scheduled = { id: doc.id, ...doc.data() } as ScheduledNotificationData;
+  if (scheduled.createdBy !== uid) {
+    throw new functions.https.HttpsError(
+      'permission-denied',
+      'You can only manage scheduled notifications you created'
+    );
+  }
+
+  if (scheduled.status !== 'scheduled') {
+    throw new functions.https.HttpsError(
+      'failed-precondition',
+      `Scheduled notification is already ${scheduled.status}`
+    );
+  }
+
+  return scheduled;
+}
+
+/**
+ * Work out the first send time from either sendAt (ISO date) or cron + timeZone.
+ * The time zone defaults to the recipient's profile time zone.
+ */
+async function resolveSchedule(
+  data: any,
+  targetUserId: string
+): Promise<{ scheduleTime: Date; recurrence: ScheduleRecurrence | null }> {
+  const { sendAt, cron, endsAt } = data || {};
+
+  if (!sendAt === !cron) {
+    throw new functions.https.HttpsError('invalid-argument', 'Provide exactly one of sendAt or cron');
+  }
+
+  if (sendAt) {
+    const scheduleTime = new Date(sendAt);
+    if (isNaN(scheduleTime.getTime()) || scheduleTime.getTime() <= Date.now()) {
+      throw new functions.https.HttpsError('invalid-argument', 'sendAt must be a future ISO date');
+    }
+    return { scheduleTime, recurrence: null };
+  }
+
+  const cronError = getCronExpressionError(cron);
+  if (cronError) {
+    throw new functions.https.HttpsError('invalid-argument', cronError);
+  }
+
+  let timeZone = data.timeZone;
+  if (!timeZone) {
+    const userData = await getUserData(targetUserId);
+    timeZone = userData?.timeZone || DEFAULT_TIME_ZONE;
+  }
+  if (!isValidTimeZone(timeZone)) {
+    throw new functions.https.HttpsError('invalid-argument', `Invalid time zone: ${timeZone}`);
+  }
+
+  let endsAtTimestamp: admin.firestore.Timestamp | null = null;
+  if (endsAt) {
+    const endsAtDate = new Date(endsAt);
+    if (isNaN(endsAtDate.getTime())) {
+      throw new functions.https.HttpsError('invalid-argument', 'endsAt must be an ISO date');
+    }
+    endsAtTimestamp = admin.firestore.Timestamp.fromDate(endsAtDate);
+  }
+
+  const scheduleTime = getNextCronOccurrence(cron, new Date(), timeZone);
+  if (!scheduleTime || (endsAtTimestamp && scheduleTime > endsAtTimestamp.toDate())) {
+    throw new functions.https.HttpsError('invalid-argument', 'Schedule never fires before it ends');
+  }
+
+  return {
+    scheduleTime,
+    recurrence: { cron, timeZone, endsAt: endsAtTimestamp },
+  };
+}
@@ -0,0 +1,197 @@
+import * as functions from 'firebase-functions';
+import { requireAuthAndRole, createSuccessResponse } from '../utils/auth';
+import { notificationService } from './notification-service';
+import { DEFAULT_LOCALE, MessageCatalog, hasMessage, translate } from './message-catalog';
+import {
+  MESSAGE_KEY_TYPES,
+  TEMPLATE_FIELDS,
+  TemplateCopy,
+  activateTemplateVersion,
+  getMessageKeyType,
+  getTemplateVersions,
+  loadTemplateOverrides,
+  saveTemplateVersion,
+  validateTemplateCopy,
+} from './template-store';
+
+// Sample actors for previewing aggregated copy
+const SAMPLE_AGGREGATION_ARGS = { actorName: 'Alex', secondActorName: 'Sam', others: 2 };
+
+/**
+ * Save new template copy for a message key and locale (admin only).
+ * Each save becomes a new version and is published immediately.
+ */
+export const saveNotificationTemplate = functions.https.onCall(async (data, context) => {
+  const uid = await requireAuthAndRole(context, 'admin');
+  const messageKey = requireMessageKey(data);
+  const locale = requireLocale(data);
+  const copy = getTemplateCopy(data);
+
+  const errors = validateTemplateCopy(messageKey, copy);
+  if (errors.length > 0) {
+    throw new functions.https.HttpsError('invalid-argument', errors.join('; '));
+  }
+
+  try {
+    const version = await saveTemplateVersion(messageKey, locale, copy, uid, data.note);
+
+    console.log(`Template ${messageKey} (${locale}) saved as version ${version} by ${uid}`);
+    return createSuccessResponse({ messageKey, locale, version });
+  } catch (error) {
+    console.error(`Failed to save template ${messageKey}:`, error);
+    throw new functions.https.HttpsError('internal', 'Failed to save template');
+  }
+});
+
+/**
+ * Republish an earlier template version, e.g. to roll back a bad edit (admin only)
+ */
+export const activateNotificationTemplateVersion = functions.https.onCall(async (data, context) => {
+  const uid = await requireAuthAndRole(context, 'admin');
+  const messageKey = requireMessageKey(data);
+  const locale = requireLocale(data);
+  const version = Number(data.version);
+
+  if (!Number.isInteger(version) || version < 1) {
+    throw new functions.https.HttpsError('invalid-argument', 'version must be a positive integer');
+  }
+
+  try {
+    const copy = await activateTemplateVersion(messageKey, locale, version, uid);
+    if (!copy) {
+      throw new functions.https.HttpsError('not-found', 'Template version not found');
+    }
+
+    console.log(`Template ${messageKey} (${locale}) rolled to version ${version} by ${uid}`);
+    return createSuccessResponse({ messageKey, locale, version, copy });
+  } catch (error) {
+    if (error instanceof functions.https.HttpsError) throw error;
+    console.error(`Failed to activate template ${messageKey} version ${version}:`, error);
+    throw new functions.https.HttpsError('internal', 'Failed to activate template version');
+  }
+});
+
+/**
+ * List a template's version history, newest first (admin only)
+ */
+export const getNotificationTemplateVersions = functions.https.onCall(async (data, context) => {
+  await requireAuthAndRole(context, 'admin');
+  const messageKey = requireMessageKey(data);
+  const limit = Math.min(Math.max(Number(data.limit) || 20, 1), 100);
+
+  try {
+    const versions = await getTemplateVersions(messageKey, data.locale, limit);
+    return createSuccessResponse({ messageKey, versions });
+  } catch (error) {
+    console.error(`Failed to list versions for template ${messageKey}:`, error);
+    throw new functions.https.HttpsError('internal', 'Failed to list template versions');
+  }
+});
+
+/**
+ * Render a template (published or draft copy) for a sample payload and validate
+ * the resulting message with FCM using dryRun (admin only). Nothing is delivered.
+ */
+export const previewNotificationTemplate = functions.https.onCall(async (data, context) => {
+  const uid = await requireAuthAndRole(context, 'admin');
+  const messageKey = requireMessageKey(data);
+  const locale = data.locale ? requireLocale(data) : DEFAULT_LOCALE;
+  const draftCopy = getTemplateCopy(data);
+  const sampleData = data.sampleData || {};
+  const targetUserId = data.targetUserId || uid;
+
+  if (typeof sampleData !== 'object' || Array.isArray(sampleData)) {
+    throw new functions.https.HttpsError('invalid-argument', 'sampleData must be an object');
+  }
+
+  const hasDraft = Object.keys(draftCopy).length > 0;
+  if (hasDraft) {
+    const errors = validateTemplateCopy(messageKey, draftCopy);
+    if (errors.length > 0) {
+      throw new functions.https.HttpsError('invalid-argument', errors.join('; '));
+    }
+  }
+
+  try {
+    await loadTemplateOverrides();
+
+    const type = getMessageKeyType(messageKey)!;
+    const draft: MessageCatalog = {};
+    Object.entries(draftCopy).forEach(([field, pattern]) => {
+      draft[`${messageKey}.${field}`] = pattern!;
+    });
+
+    const template = notificationService.getNotificationTemplate(
+      type,
+      sampleData,
+      locale,
+      messageKey,
+      draft
+    );
+    const aggregatedKey = `${messageKey}.aggregated`;
+    const aggregatedBody = hasMessage(aggregatedKey) || aggregatedKey in draft
+      ? translate(locale, aggregatedKey, { ...SAMPLE_AGGREGATION_ARGS, ...sampleData }, draft)
+      : null;
+
+    let dryRun = null;
+    let dryRunError = null;
+    try {
+      dryRun = await notificationService.sendNotification(
+        { type: 'user', value: targetUserId },
+        template,
+        { dryRun: true }
+      );
+    } catch (error) {
+      dryRunError = (error as Error).message;
+    }
+
+    return createSuccessResponse({
+      messageKey,
+      type,
+      locale,
+      draft: hasDraft,
+      preview: {
+        title: template.title,
+        body: template.body,
+        aggregatedBody,
+        data: template.data,
+      },
+      dryRun,
+      dryRunError,
+    });
+  } catch (error) {
+    console.error(`Failed to preview template ${messageKey}:`, error);
+    throw new functions.https.HttpsError('internal', 'Failed to preview template');
+  }
+});
+
+// Helper functions
+
+function requireMessageKey(data: any): string {
+  const messageKey = data?.messageKey;
+  if (!messageKey || typeof messageKey !== 'string' || !getMessageKeyType(messageKey)) {
+    throw new functions.https.HttpsError(
+      'invalid-argument',
+      `Invalid messageKey. Must be one of: ${Object.keys(MESSAGE_KEY_TYPES).join(', ')}`
+    );
+  }
+  return messageKey;
+}
+
+function requireLocale(data: any): string {
+  const locale = String(data?.locale || '').toLowerCase();
+  if (!/^[a-z]{2}(-[a-z]{2})?$/.test(locale)) {
+    throw new functions.https.HttpsError('invalid-argument', 'locale must look like "en" or "es-mx"');
+  }
+  return locale;
+}
+
+function getTemplateCopy(data: any): TemplateCopy {
+  const copy: TemplateCopy = {};
+  TEMPLATE_FIELDS.forEach(field => {
+    if (data?.[field] !== undefined) {
+      copy[field] = data[field];
+    }
+  });
+  return copy;
+}
@@ -0,0 +1,36 @@
+import { NotificationType } from '../types';
+import { getMessageKeyType, validateTemplateCopy } from './template-store';
+
+describe('template store', () => {
+  describe('getMessageKeyType', () => {
+    it('maps catalog message keys to their notification type', () => {
+      expect(getMessageKeyType('new_like')).toBe(NotificationType.NEW_LIKE);
+    });
+
+    it.each(['constructor', 'toString', '__proto__', 'hasOwnProperty'])(
+      'does not treat %s as a message key',
+      (messageKey) => {
+        expect(getMessageKeyType(messageKey)).toBeNull();
+        expect(validateTemplateCopy(messageKey, { title: 'Hi' })).toEqual([`Unknown message key: ${messageKey}`]);
+      }
+    );
+  });
+
+  describe('validateTemplateCopy', () => {
+    it('accepts an edit to only the aggregated message', () => {
+      expect(validateTemplateCopy('new_like', {
+        aggregated: '{actorName} and {others} others liked your post',
+      })).toEqual([]);
+    });
+
+    it('lists the fields the message has when the edit is empty', () => {
+      expect(validateTemplateCopy('new_like', {})).toEqual(['Provide at least one of: title, body, aggregated']);
+      expect(validateTemplateCopy('friend_request', {})).toEqual(['Provide at least one of: title, body']);
+    });
+
+    it('rejects aggregated copy for messages that are never aggregated', () => {
+      expect(validateTemplateCopy('friend_request', { aggregated: 'Many requests' }))
+        .toContain('friend_request notifications are never aggregated');
+    });
+  });
+});
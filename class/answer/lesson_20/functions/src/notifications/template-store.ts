@@ -0,0 +1,288 @@
+import * as admin from 'firebase-admin';
+import { NotificationType } from '../types';
+import { getMessageArguments } from '../utils/message-format';
+import { MessageCatalog, setCatalogOverrides } from './message-catalog';
+
+export const TEMPLATE_FIELDS = ['title', 'body', 'aggregated'] as const;
+
+export type TemplateField = typeof TEMPLATE_FIELDS[number];
+
+export type TemplateCopy = Partial<Record<TemplateField, string>>;
+
+/**
+ * Placeholders each type's data payload provides to its templates
+ */
+export const TEMPLATE_PLACEHOLDERS: Record<NotificationType, string[]> = {
+  [NotificationType.NEW_POST]: ['authorName', 'authorId', 'postId', 'postPreview', 'hashtag'],
+  [NotificationType.NEW_LIKE]: ['likerName', 'likerId', 'postId', 'commentId', 'postContent', 'commentPreview'],
+  [NotificationType.NEW_COMMENT]: ['commenterName', 'commenterId', 'postId', 'commentId', 'parentCommentId', 'commentPreview'],
+  [NotificationType.FRIEND_REQUEST]: ['requesterName', 'requesterId', 'followerName', 'followerId'],
+  [NotificationType.NEW_MESSAGE]: ['senderName', 'senderId', 'chatId', 'messagePreview'],
+  [NotificationType.SYSTEM_ALERT]: ['alertTitle', 'error', 'severity', 'contentType', 'contentId', 'reportType'],
+  [NotificationType.WELCOME]: ['displayName', 'userId'],
+  [NotificationType.REMINDER]: ['reminderId'],
+};
+
+/**
+ * Extra placeholders for the aggregated body (see formatAggregatedBody)
+ */
+export const AGGREGATED_PLACEHOLDERS = ['actorName', 'secondActorName', 'others'];
+
+// Keys whose notifications fold into one record (see AGGREGATION_CONFIG)
+const AGGREGATED_KEYS = ['new_like', 'comment_like', 'new_comment', 'new_follower'];
+
+/**
+ * Message keys and the notification type whose payload they render
+ */
+export const MESSAGE_KEY_TYPES: Record<string, NotificationType> = {
+  new_post: NotificationType.NEW_POST,
+  mention: NotificationType.NEW_POST,
+  hashtag_post: NotificationType.NEW_POST,
+  new_post_curiosity: NotificationType.NEW_POST,
+  new_like: NotificationType.NEW_LIKE,
+  comment_like: NotificationType.NEW_LIKE,
+  new_comment: NotificationType.NEW_COMMENT,
+  comment_reply: NotificationType.NEW_COMMENT,
+  friend_request: NotificationType.FRIEND_REQUEST,
+  new_follower: NotificationType.FRIEND_REQUEST,
+  new_message: NotificationType.NEW_MESSAGE,
+  system_alert: NotificationType.SYSTEM_ALERT,
+  moderation_review: NotificationType.SYSTEM_ALERT,
+  weekly_report: NotificationType.SYSTEM_ALERT,
+  admin_alert: NotificationType.SYSTEM_ALERT,
+  welcome: NotificationType.WELCOME,
+  reminder: NotificationType.REMINDER,
+  reminder_social: NotificationType.REMINDER,
+  reengagement: NotificationType.REMINDER,
+};
+
+/**
+ * The notification type a message key renders, or null for unknown keys
+ * (including Object.prototype names like 'constructor')
+ */
+export function getMessageKeyType(messageKey: string): NotificationType | null {
+  return Object.prototype.hasOwnProperty.call(MESSAGE_KEY_TYPES, messageKey)
+    ? MESSAGE_KEY_TYPES[messageKey]
+    : null;
+}
+
+/**
+ * The editable fields a message has; only aggregated keys have 'aggregated'
+ */
+export function getTemplateFields(messageKey: string): TemplateField[] {
+  return TEMPLATE_FIELDS.filter(field => field !== 'aggregated' || AGGREGATED_KEYS.includes(messageKey));
+}
+
+const CACHE_TTL_MS = 60 * 1000;
+const MAX_TEMPLATE_LENGTH = 500;
+
+let overridesLoadedAt = 0;
+
+/**
+ * Check template copy parses and only uses placeholders its type provides.
+ * Returns a list of problems; empty when valid.
+ */
+export function validateTemplateCopy(messageKey: string, copy: TemplateCopy): string[] {
+  const type = getMessageKeyType(messageKey);
+  if (!type) {
+    return [`Unknown message key: ${messageKey}`];
+  }
+
+  const fields = getTemplateFields(messageKey);
+  const errors: string[] = [];
+
+  TEMPLATE_FIELDS.forEach(field => {
+    const pattern = copy[field];
+    if (pattern === undefined) return;
+
+    if (typeof pattern !== 'string' || !pattern.trim()) {
+      errors.push(`${field} must be a non-empty string`);
+      return;
+    }
+
+    if (pattern.length > MAX_TEMPLATE_LENGTH) {
+      errors.push(`${field} must be less than ${MAX_TEMPLATE_LENGTH} characters`);
+      return;
+    }
+
+    if (!fields.includes(field)) {
+      errors.push(`${messageKey} notifications are never aggregated`);
+      return;
+    }
+
+    let names: string[];
+    try {
+      names = getMessageArguments(pattern);
+    } catch (error) {
+      errors.push(`${field}: ${(error as Error).message}`);
+      return;
+    }
+
+    const allowed = field === 'aggregated'
+      ? [...TEMPLATE_PLACEHOLDERS[type], ...AGGREGATED_PLACEHOLDERS]
+      : TEMPLATE_PLACEHOLDERS[type];
+    const unknown = names.filter(name => !allowed.includes(name));
+    if (unknown.length > 0) {
+      errors.push(
+        `${field} uses unsupported placeholders: ${unknown.join(', ')}. ` +
+        `Available for ${type}: ${allowed.join(', ')}`
+      );
+    }
+  });
+
+  if (!fields.some(field => copy[field] !== undefined)) {
+    errors.push(`Provide at least one of: ${fields.join(', ')}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Load the published Firestore templates into the message catalog.
+ * Cached per instance; pass force after an edit.
+ */
+export async function loadTemplateOverrides(force: boolean = false): Promise<void> {
+  if (!force && Date.now() - overridesLoadedAt < CACHE_TTL_MS) {
+    return;
+  }
+
+  try {
+    const snapshot = await admin.firestore()
+      .collection('notificationTemplates')
+      .get();
+
+    const overrides: Record<string, MessageCatalog> = {};
+    snapshot.docs.forEach(doc => {
+      const locales: Record<string, TemplateCopy> = doc.data().locales || {};
+
+      Object.entries(locales).forEach(([locale, copy]) => {
+        overrides[locale] = overrides[locale] || {};
+        TEMPLATE_FIELDS.forEach(field => {
+          if (copy[field]) {
+            overrides[locale][`${doc.id}.${field}`] = copy[field]!;
+          }
+        });
+      });
+    });
+
+    setCatalogOverrides(overrides);
+    overridesLoadedAt = Date.now();
+  } catch (error) {
+    // Keep serving the previous overrides (or the built-in catalog)
+    console.error('Failed to load notification templates:', error);
+  }
+}
+
+/**
+ * Save template copy for one locale as a new version and publish it. Fields
+ * left out keep their published copy, so each version holds the full copy.
+ */
+export async function saveTemplateVersion(
+  messageKey: string,
+  locale: string,
+  copy: TemplateCopy,
+  editorId: string,
+  note?: string
+): Promise<number> {
+  const templateRef = admin.firestore().collection('notificationTemplates').doc(messageKey);
+
+  const version = await admin.firestore().runTransaction(async (transaction) => {
+    const templateDoc = await transaction.get(templateRef);
+    const latestVersions: Record<string, number> = templateDoc.data()?.latestVersions || {};
+    const nextVersion = (latestVersions[locale] || 0) + 1;
+    const published: TemplateCopy = templateDoc.data()?.locales?.[locale] || {};
+    const fullCopy: TemplateCopy = {};
+    TEMPLATE_FIELDS.forEach(field => {
+      const value = copy[field] ?? published[field];
+      if (value) fullCopy[field] = value;
+    });
+
+    transaction.set(templateRef.collection('versions').doc(`${locale}_${nextVersion}`), {
+      messageKey,
+      locale,
+      version: nextVersion,
+      copy: fullCopy,
+      note: note || null,
+      createdBy: editorId,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    // mergeFields replaces this locale's copy wholesale and leaves other locales alone
+    transaction.set(templateRef, {
+      messageKey,
+      type: getMessageKeyType(messageKey),
+      locales: { [locale]: { ...fullCopy, version: nextVersion } },
+      latestVersions: { [locale]: nextVersion },
+      updatedBy: editorId,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    }, {
+      mergeFields: [
+        'messageKey',
+        'type',
+        `locales.${locale}`,
+        `latestVersions.${locale}`,
+        'updatedBy',
+        'updatedAt',
+      ],
+    });
+
+    return nextVersion;
+  });
+
+  await loadTemplateOverrides(true);
+  return version;
+}
+
+/**
+ * Republish an earlier version of a locale's copy
+ */
+export async function activateTemplateVersion(
+  messageKey: string,
+  locale: string,
+  version: number,
+  editorId: string
+): Promise<TemplateCopy | null> {
+  const templateRef = admin.firestore().collection('notificationTemplates').doc(messageKey);
+  const versionDoc = await templateRef.collection('versions').doc(`${locale}_${version}`).get();
+
+  if (!versionDoc.exists) {
+    return null;
+  }
+
+  const copy: TemplateCopy = versionDoc.data()!.copy;
+
+  // Replace rather than merge so fields absent from the old version are dropped
+  await templateRef.update({
+    [`locales.${locale}`]: { ...copy, version },
+    updatedBy: editorId,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  await loadTemplateOverrides(true);
+  return copy;
+}
+
+/**
+ * Version history for a template, newest first
+ */
+export async function getTemplateVersions(
+  messageKey: string,
+  locale?: string,
+  limit: number = 20
+): Promise<any[]> {
+  let query: admin.firestore.Query = admin.firestore()
+    .collection('notificationTemplates')
+    .doc(messageKey)
+    .collection('versions');
+
+  if (locale) {
+    query = query.where('locale', '==', locale);
+  }
+
+  const snapshot = await query
+    .orderBy('createdAt', 'desc')
+    .limit(limit)
+    .get();
+
+  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+}
@@ -0,0 +1,247 @@
+import * as crypto from 'crypto';
+import { MessagingProvider, PushMessage, PushSendResponse } from './messaging-provider';
+
+export interface VapidKeys {
+  publicKey: string; // base64url, uncompressed P-256 point
+  privateKey: string; // base64url, 32 bytes
+  subject: string; // mailto: or https: contact for the push service
+}
+
+export interface PushSubscriptionData {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+const DEFAULT_TTL_SECONDS = 4 * 7 * 24 * 60 * 60;
+const RECORD_SIZE = 4096;
+const JWT_LIFETIME_SECONDS = 12 * 60 * 60;
+
+/**
+ * Sends straight to browser push services with VAPID (RFC 8292) and
+ * aes128gcm payload encryption (RFC 8291), without going through FCM.
+ * Device tokens are the browser's PushSubscription serialized as JSON.
+ */
+export class WebPushMessagingProvider implements MessagingProvider {
+  readonly name = 'webpush';
+  readonly maxBatchSize = 100;
+
+  private readonly signingKey: crypto.KeyObject;
+
+  constructor(private readonly vapid: VapidKeys) {
+    const publicKey = Buffer.from(vapid.publicKey, 'base64url');
+    this.signingKey = crypto.createPrivateKey({
+      key: {
+        kty: 'EC',
+        crv: 'P-256',
+        d: vapid.privateKey,
+        x: publicKey.subarray(1, 33).toString('base64url'),
+        y: publicKey.subarray(33, 65).toString('base64url'),
+      },
+      format: 'jwk',
+    });
+  }
+
+  /**
+   * Keys from VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT
+   */
+  static fromEnv(): WebPushMessagingProvider {
+    const { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT } = process.env;
+    if (!VAPID_PUBLIC_KEY || !VAPID_PRIVATE_KEY || !VAPID_SUBJECT) {
+      throw new Error('VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT must be set for web push');
+    }
+    return new WebPushMessagingProvider({
+      publicKey: VAPID_PUBLIC_KEY,
+      privateKey: VAPID_PRIVATE_KEY,
+      subject: VAPID_SUBJECT,
+    });
+  }
+
+  async sendToTokens(message: PushMessage, tokens: string[], dryRun?: boolean): Promise<PushSendResponse[]> {
+    const payload = Buffer.from(JSON.stringify(this.buildPayload(message)));
+    return Promise.all(tokens.map(token => this.sendToSubscription(token, payload, message, dryRun)));
+  }
+
+  async sendToAudience(): Promise<string> {
+    throw new Error('Web push has no topics or conditions; send to device tokens instead');
+  }
+
+  // Helper methods
+
+  /**
+   * What the service worker receives: the web push notification plus the data map
+   */
+  private buildPayload(message: PushMessage): Record<string, any> {
+    const notification = message.webpush?.notification || {};
+    return {
+      title: notification.title || message.notification?.title,
+      body: notification.body || message.notification?.body,
+      icon: notification.icon,
+      badge: notification.badge,
+      tag: notification.tag,
+      requireInteraction: notification.requireInteraction,
+      actions: notification.actions,
+      data: {
+        ...message.data,
+        ...(message.webpush?.fcmOptions?.link ? { link: message.webpush.fcmOptions.link } : {}),
+      },
+    };
+  }
+
+  private async sendToSubscription(
+    token: string,
+    payload: Buffer,
+    message: PushMessage,
+    dryRun?: boolean
+  ): Promise<PushSendResponse> {
+    let subscription: PushSubscriptionData | null = null;
+    try {
+      subscription = parsePushSubscription(JSON.parse(token));
+    } catch (error) {
+      // Falls through to the error below
+    }
+    if (!subscription) {
+      // Not our format (e.g. an FCM token); leave the device alone
+      return { success: false, error: { code: 'messaging/invalid-argument', message: 'Token is not a web push subscription' } };
+    }
+
+    try {
+      const body = this.encrypt(payload, subscription.keys.p256dh, subscription.keys.auth);
+      if (dryRun) {
+        return { success: true, messageId: 'dry-run' };
+      }
+
+      const headers = message.webpush?.headers || {};
+      const response = await fetch(subscription.endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Encoding': 'aes128gcm',
+          'Content-Type': 'application/octet-stream',
+          TTL: headers.TTL || String(DEFAULT_TTL_SECONDS),
+          Urgency: headers.Urgency || 'normal',
+          Authorization: this.getAuthorization(subscription.endpoint),
+        },
+        body: new Uint8Array(body),
+      });
+
+      if (response.status === 201 || response.status === 202) {
+        return { success: true, messageId: response.headers.get('location') || undefined };
+      }
+
+      return {
+        success: false,
+        error: {
+          code: this.getErrorCode(response.status),
+          message: `Push service responded ${response.status}: ${await response.text()}`,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: { code: 'messaging/internal-error', message: (error as Error).message },
+      };
+    }
+  }
+
+  /**
+   * aes128gcm content coding with a single record (RFC 8188 / RFC 8291)
+   */
+  private encrypt(payload: Buffer, p256dh: string, auth: string): Buffer {
+    const userAgentPublicKey = Buffer.from(p256dh, 'base64url');
+    const authSecret = Buffer.from(auth, 'base64url');
+
+    const ecdh = crypto.createECDH('prime256v1');
+    const serverPublicKey = ecdh.generateKeys();
+    const sharedSecret = ecdh.computeSecret(userAgentPublicKey);
+
+    const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userAgentPublicKey, serverPublicKey]);
+    const inputKey = hkdf(sharedSecret, authSecret, keyInfo, 32);
+
+    const salt = crypto.randomBytes(16);
+    const contentKey = hkdf(inputKey, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+    const nonce = hkdf(inputKey, salt, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+    // 0x02 marks the last (and only) record
+    const cipher = crypto.createCipheriv('aes-128-gcm', contentKey, nonce);
+    const ciphertext = Buffer.concat([
+      cipher.update(Buffer.concat([payload, Buffer.from([2])])),
+      cipher.final(),
+      cipher.getAuthTag(),
+    ]);
+
+    const recordSize = Buffer.alloc(4);
+    recordSize.writeUInt32BE(RECORD_SIZE);
+
+    return Buffer.concat([salt, recordSize, Buffer.from([serverPublicKey.length]), serverPublicKey, ciphertext]);
+  }
+
+  /**
+   * VAPID header: an ES256 JWT scoped to the push service origin
+   */
+  private getAuthorization(endpoint: string): string {
+    const header = base64UrlJson({ typ: 'JWT', alg: 'ES256' });
+    const claims = base64UrlJson({
+      aud: new URL(endpoint).origin,
+      exp: Math.floor(Date.now() / 1000) + JWT_LIFETIME_SECONDS,
+      sub: this.vapid.subject,
+    });
+
+    const signature = crypto.sign('sha256', Buffer.from(`${header}.${claims}`), {
+      key: this.signingKey,
+      dsaEncoding: 'ieee-p1363',
+    });
+
+    return `vapid t=${header}.${claims}.${signature.toString('base64url')}, k=${this.vapid.publicKey}`;
+  }
+
+  /**
+   * Map push service statuses onto the FCM error codes the service handles
+   */
+  private getErrorCode(status: number): string {
+    switch (status) {
+      case 404:
+      case 410:
+        return 'messaging/registration-token-not-registered';
+      case 400:
+        return 'messaging/invalid-argument';
+      case 401:
+      case 403:
+        return 'messaging/third-party-auth-error';
+      case 413:
+        return 'messaging/payload-size-limit-exceeded';
+      case 429:
+        return 'messaging/message-rate-exceeded';
+      default:
+        return 'messaging/internal-error';
+    }
+  }
+}
+
+/**
+ * The fields of a browser PushSubscription (its toJSON() form) that sending
+ * needs, or null when something is missing. The endpoint must be HTTPS.
+ */
+export function parsePushSubscription(value: any): PushSubscriptionData | null {
+  const endpoint = value?.endpoint;
+  const p256dh = value?.keys?.p256dh;
+  const auth = value?.keys?.auth;
+
+  if (typeof endpoint !== 'string' || typeof p256dh !== 'string' || typeof auth !== 'string') {
+    return null;
+  }
+  try {
+    if (new URL(endpoint).protocol !== 'https:') {
+      return null;
+    }
+  } catch (error) {
+    return null;
+  }
+  return { endpoint, keys: { p256dh, auth } };
+}
+
+function hkdf(inputKey: Buffer, salt: Buffer, info: Buffer, length: number): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', inputKey, salt, info, length));
+}
+
+function base64UrlJson(value: Record<string, any>): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
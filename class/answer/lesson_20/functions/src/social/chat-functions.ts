@@ -0,0 +1,72 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { notificationService } from '../notifications/notification-service';
+import { NotificationType, ChatData, ChatMessageData } from '../types';
+import { getUserData } from '../utils/auth';
+import { applyEventOnce } from '../utils/event-ledger';
+
+/**
+ * Chat message trigger - records the chat's last message and notifies the other
+ * participants. Messages come from the app or from a notification's reply action.
+ */
+export const onChatMessageCreate = functions.firestore
+  .document('chats/{chatId}/messages/{messageId}')
+  .onCreate(async (snapshot, context) => {
+    const chatId = context.params.chatId;
+    const messageId = context.params.messageId;
+    const message = snapshot.data() as ChatMessageData;
+    const chatRef = admin.firestore().collection('chats').doc(chatId);
+
+    try {
+      // Update the chat once per event; a redelivered event stops here
+      let recipientIds: string[] = [];
+      const applied = await applyEventOnce(context, 'onChatMessageCreate', async (transaction) => {
+        const chatDoc = await transaction.get(chatRef);
+        const chat = chatDoc.data() as ChatData | undefined;
+
+        if (!chat || !(chat.participants || []).includes(message.senderId)) {
+          recipientIds = [];
+          return;
+        }
+        recipientIds = chat.participants.filter(userId => userId !== message.senderId);
+
+        // Messages can trigger out of order; keep the newest as lastMessage
+        const lastMessageAt = chat.lastMessageAt?.toMillis() || 0;
+        if (!message.createdAt || message.createdAt.toMillis() >= lastMessageAt) {
+          transaction.update(chatRef, {
+            lastMessage: { senderId: message.senderId, text: message.text, messageId },
+            lastMessageAt: message.createdAt || admin.firestore.FieldValue.serverTimestamp(),
+          });
+        }
+      });
+      if (!applied) return;
+
+      if (recipientIds.length === 0) {
+        console.log(`Message ${messageId} is not from a participant of chat ${chatId}`);
+        return;
+      }
+
+      const senderData = await getUserData(message.senderId);
+
+      const results = await Promise.allSettled(recipientIds.map(recipientId =>
+        notificationService.sendNotificationToUser({
+          targetUserId: recipientId,
+          type: NotificationType.NEW_MESSAGE,
+          data: {
+            chatId: chatId,
+            messageId: messageId,
+            senderId: message.senderId,
+            senderName: senderData?.displayName,
+            senderAvatar: senderData?.photoURL,
+            messagePreview: String(message.text || '').substring(0, 100),
+          },
+          priority: 'high',
+        })
+      ));
+
+      const failed = results.filter(result => result.status === 'rejected').length;
+      console.log(`Message ${messageId} in chat ${chatId}: notified ${results.length - failed} participants`);
+    } catch (error) {
+      console.error(`Error processing message ${messageId} in chat ${chatId}:`, error);
+    }
+  });
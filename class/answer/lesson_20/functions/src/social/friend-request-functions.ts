@@ -0,0 +1,99 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { notificationService } from '../notifications/notification-service';
+import { NotificationType, FriendRequestData } from '../types';
+import { requireAuth, createSuccessResponse, getUserData } from '../utils/auth';
+import { isValidFirebaseDocumentId } from '../utils/validation';
+
+/**
+ * Send a friend request. There is one request per pair and direction, so
+ * sending again returns the existing request instead of notifying again.
+ * Requests are answered with acceptFriendRequest / declineFriendRequest.
+ */
+export const sendFriendRequest = functions.https.onCall(async (data, context) => {
+  const uid = requireAuth(context);
+  const recipientId = data?.recipientId;
+
+  if (!recipientId || typeof recipientId !== 'string' || !isValidFirebaseDocumentId(recipientId)) {
+    throw new functions.https.HttpsError('invalid-argument', 'Missing or invalid recipientId');
+  }
+  if (recipientId === uid) {
+    throw new functions.https.HttpsError('invalid-argument', 'Cannot send a friend request to yourself');
+  }
+
+  try {
+    if (!(await getUserData(recipientId))) {
+      throw new functions.https.HttpsError('not-found', 'User not found');
+    }
+
+    const requestsRef = admin.firestore().collection('friendRequests');
+    const reverseDoc = await requestsRef.doc(`${recipientId}_${uid}`).get();
+    if (reverseDoc.exists && reverseDoc.data()!.status === 'pending') {
+      throw new functions.https.HttpsError(
+        'failed-precondition',
+        'This user already sent you a friend request'
+      );
+    }
+
+    const requestRef = requestsRef.doc(`${uid}_${recipientId}`);
+    const status = await admin.firestore().runTransaction(async (transaction) => {
+      const requestDoc = await transaction.get(requestRef);
+      if (requestDoc.exists) {
+        return requestDoc.data()!.status;
+      }
+
+      transaction.create(requestRef, {
+        requesterId: uid,
+        recipientId,
+        status: 'pending',
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return 'pending';
+    });
+
+    return createSuccessResponse({ requestId: requestRef.id, status });
+  } catch (error) {
+    if (error instanceof functions.https.HttpsError) throw error;
+    console.error(`Failed to send friend request from ${uid} to ${recipientId}:`, error);
+    throw new functions.https.HttpsError('internal', 'Failed to send friend request');
+  }
+});
+
+/**
+ * Friend request trigger - notifies the recipient with accept and decline actions
+ */
+export const onFriendRequestCreate = functions.firestore
+  .document('friendRequests/{requestId}')
+  .onCreate(async (snapshot, context) => {
+    const requestId = context.params.requestId;
+    const request = snapshot.data() as FriendRequestData;
+
+    if (request.status !== 'pending') {
+      return;
+    }
+
+    try {
+      const requesterData = await getUserData(request.requesterId);
+      if (!requesterData) {
+        console.error(`Requester data not found for user ${request.requesterId}`);
+        return;
+      }
+
+      await notificationService.sendNotificationToUser({
+        targetUserId: request.recipientId,
+        type: NotificationType.FRIEND_REQUEST,
+        messageKey: 'friend_request',
+        data: {
+          requestId: requestId,
+          requesterId: request.requesterId,
+          requesterName: requesterData.displayName,
+          requesterAvatar: requesterData.photoURL,
+        },
+        priority: 'normal',
+      });
+
+      console.log(`Friend request ${requestId} notified to ${request.recipientId}`);
+    } catch (error) {
+      console.error(`Error processing friend request ${requestId}:`, error);
+    }
+  });
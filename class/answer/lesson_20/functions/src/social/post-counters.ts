@@ -0,0 +1,186 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { PostCounterField, PostData } from '../types';
+import { applyEventOnce } from '../utils/event-ledger';
+
+/**
+ * Post counters are written to the post document until it gets hot. Once
+ * counter writes in one window pass maxWritesPerWindow (Firestore sustains
+ * about one write per second per document), the post switches to shards:
+ *
+ *   posts/{postId}/counterShards/{0..shardCount-1}   random shard per write
+ *
+ * The post's own counts then lag slightly: rollUpShardedCounters adds the
+ * shard totals onto them every minute, so clients keep reading the post.
+ */
+export const COUNTER_SHARDING = {
+  shardCount: 10,
+  maxWritesPerWindow: 30,
+  windowMs: 60 * 1000,
+  // Shards written this recently are rolled up; covers a few missed runs
+  rollupLookbackMs: 5 * 60 * 1000,
+};
+
+export const POST_COUNTER_FIELDS: PostCounterField[] = ['likesCount', 'commentsCount', 'sharesCount'];
+
+/**
+ * Apply a counter change once per trigger event, to the post or one of its
+ * shards. `alsoWrite` adds the trigger's own writes to the same transaction; they are
+ * skipped with the counter when the post is gone.
+ * Returns false for a redelivered event.
+ */
+export async function updatePostCounter(
+  context: functions.EventContext,
+  trigger: string,
+  postId: string,
+  field: PostCounterField,
+  delta: number,
+  alsoWrite?: (transaction: admin.firestore.Transaction) => void
+): Promise<boolean> {
+  const postRef = admin.firestore().collection('posts').doc(postId);
+
+  return applyEventOnce(context, trigger, async (transaction) => {
+    // Read in the transaction: the rate window and the switch to shards
+    // must see the post as the roll-up last left it
+    const postData = (await transaction.get(postRef)).data() as PostData | undefined;
+
+    // The post may be gone, since deleting it deletes its likes and comments
+    if (!postData) {
+      return;
+    }
+
+    alsoWrite?.(transaction);
+
+    if (postData.counterShards?.enabled) {
+      const shard = Math.floor(Math.random() * postData.counterShards.shardCount);
+      transaction.set(postRef.collection('counterShards').doc(String(shard)), {
+        [field]: admin.firestore.FieldValue.increment(delta),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      }, { merge: true });
+      return;
+    }
+
+    transaction.update(postRef, {
+      [field]: admin.firestore.FieldValue.increment(delta),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      ...getRateUpdate(postId, postData),
+    });
+  });
+}
+
+/**
+ * Add shard totals onto the counts of every post whose shards changed recently.
+ * Needs a collection group index on counterShards.updatedAt.
+ */
+export async function rollUpShardedCounters(): Promise<number> {
+  const since = admin.firestore.Timestamp.fromMillis(Date.now() - COUNTER_SHARDING.rollupLookbackMs);
+  const shardsSnapshot = await admin.firestore()
+    .collectionGroup('counterShards')
+    .where('updatedAt', '>=', since)
+    .select()
+    .get();
+
+  const postIds = new Set(
+    shardsSnapshot.docs
+      .map(doc => doc.ref.parent.parent?.id)
+      .filter((id): id is string => !!id)
+  );
+
+  let rolledUp = 0;
+  for (const postId of postIds) {
+    try {
+      if (await rollUpPostCounters(postId)) {
+        rolledUp++;
+      }
+    } catch (error) {
+      console.error(`Failed to roll up counters for post ${postId}:`, error);
+    }
+  }
+
+  return rolledUp;
+}
+
+/**
+ * Delete a post's shards (the post itself is being deleted)
+ */
+export async function deleteCounterShards(postId: string): Promise<void> {
+  const shardsSnapshot = await admin.firestore()
+    .collection('posts')
+    .doc(postId)
+    .collection('counterShards')
+    .get();
+
+  if (shardsSnapshot.empty) return;
+
+  const batch = admin.firestore().batch();
+  shardsSnapshot.docs.forEach(doc => batch.delete(doc.ref));
+  await batch.commit();
+}
+
+// Helper functions
+
+/**
+ * Count this write in the post's rate window, and switch the post to shards
+ * once the window passes the threshold. Only called while sharding is off.
+ */
+function getRateUpdate(postId: string, post: PostData): Record<string, any> {
+  const now = Date.now();
+  const window = post.counterWindow;
+  const inWindow = !!window && now - window.startedAt.toMillis() < COUNTER_SHARDING.windowMs;
+  const writes = inWindow ? window!.writes + 1 : 1;
+
+  const update: Record<string, any> = inWindow
+    ? { 'counterWindow.writes': admin.firestore.FieldValue.increment(1) }
+    : { counterWindow: { startedAt: admin.firestore.Timestamp.fromMillis(now), writes: 1 } };
+
+  // Field paths leave counterShards.applied alone; a missing map reads as nothing applied
+  if (writes >= COUNTER_SHARDING.maxWritesPerWindow) {
+    update['counterShards.enabled'] = true;
+    update['counterShards.shardCount'] = COUNTER_SHARDING.shardCount;
+    update['counterShards.enabledAt'] = admin.firestore.FieldValue.serverTimestamp();
+    console.log(`Post ${postId} passed ${writes} counter writes per window, switching to sharded counters`);
+  }
+
+  return update;
+}
+
+/**
+ * Move the shard totals not yet applied onto the post. Shards are never
+ * reset, so the post records how much of each total it already holds.
+ */
+async function rollUpPostCounters(postId: string): Promise<boolean> {
+  const postRef = admin.firestore().collection('posts').doc(postId);
+  const shardsSnapshot = await postRef.collection('counterShards').get();
+
+  const totals: Record<string, number> = {};
+  POST_COUNTER_FIELDS.forEach(field => {
+    totals[field] = shardsSnapshot.docs.reduce((sum, doc) => sum + (doc.data()[field] || 0), 0);
+  });
+
+  return admin.firestore().runTransaction(async (transaction) => {
+    const postDoc = await transaction.get(postRef);
+    const post = postDoc.data() as PostData | undefined;
+    if (!post?.counterShards?.enabled) {
+      return false;
+    }
+
+    const update: Record<string, any> = {};
+    POST_COUNTER_FIELDS.forEach(field => {
+      const delta = totals[field] - (post.counterShards!.applied?.[field] || 0);
+      if (delta !== 0) {
+        update[field] = admin.firestore.FieldValue.increment(delta);
+        update[`counterShards.applied.${field}`] = totals[field];
+      }
+    });
+
+    if (Object.keys(update).length === 0) {
+      return false;
+    }
+
+    transaction.update(postRef, {
+      ...update,
+      'counterShards.rolledUpAt': admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+}
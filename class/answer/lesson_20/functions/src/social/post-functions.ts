@@ -1,8 +1,23 @@
 import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
-import { NotificationService } from '../notifications/notification-service';
-import { NotificationType, PostData, UserData, ModerationResult } from '../types';
+import { notificationService } from '../notifications/notification-service';
+import { startFollowerFanout, startHashtagFanout } from '../notifications/fanout-functions';
+import { NotificationType, PostData, CommentData, UserData, ModerationResult } from '../types';
 import { validatePostContent, moderateContent, extractHashtags, extractMentions } from '../utils/validation';
+import { applyEventOnce } from '../utils/event-ledger';
+import { deleteCounterShards, updatePostCounter } from './post-counters';
+
+// Depth of the deepest replies; top-level comments are depth 0
+const MAX_COMMENT_DEPTH = 2;
+
+// Fields an author edits; changes to anything else (counters, moderation, etc.) are not edits
+const EDITABLE_POST_FIELDS: (keyof PostData)[] = ['content', 'imageUrls'];
+
+interface CommentThread {
+  parentRef: admin.firestore.DocumentReference | null;
+  depth: number;
+  repliedTo: { commentId: string; authorId: string | null } | null;
+}
 
 /**
  * Post creation trigger - processes new posts and sends notifications
@@ -45,6 +60,89 @@ export const onPostCreate = functions.firestore
     }
   });
 
+/**
+ * Post update trigger - keeps the previous revision of an edited post and
+ * reprocesses its content
+ */
+export const onPostUpdate = functions.firestore
+  .document('posts/{postId}')
+  .onUpdate(async (change, context) => {
+    const postId = context.params.postId;
+    const before = change.before.data() as PostData;
+    const after = change.after.data() as PostData;
+    const authorId = after.authorId;
+    
+    // Also skips the writes below, which only touch non-editable fields
+    if (!isPostEdit(before, after)) return;
+    
+    try {
+      console.log(`Processing edit of post ${postId} by user ${authorId}`);
+      
+      const oldHashtags = extractHashtags(before.content);
+      const newHashtags = extractHashtags(after.content);
+      const oldMentions = extractMentions(before.content);
+      const newMentions = extractMentions(after.content);
+      
+      const addedHashtags = newHashtags.filter(tag => !oldHashtags.includes(tag));
+      const removedHashtags = oldHashtags.filter(tag => !newHashtags.includes(tag));
+      const addedMentions = newMentions.filter(username => !oldMentions.includes(username));
+      
+      // Revision, trends and the edit marker are written once per event
+      const postRef = change.after.ref;
+      const applied = await applyEventOnce(context, 'onPostUpdate', async (transaction) => {
+        const postDoc = await transaction.get(postRef);
+        if (!postDoc.exists) return;
+        
+        transaction.create(postRef.collection('revisions').doc(), {
+          content: before.content,
+          imageUrls: before.imageUrls || [],
+          hashtags: oldHashtags,
+          mentions: oldMentions,
+          moderationStatus: before.moderationStatus || null,
+          versionAt: before.editedAt || before.createdAt,
+          revisedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        
+        addedHashtags.forEach(hashtag => {
+          transaction.set(admin.firestore().collection('trends').doc(hashtag), {
+            hashtag: hashtag,
+            count: admin.firestore.FieldValue.increment(1),
+            lastUsed: admin.firestore.FieldValue.serverTimestamp(),
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          }, { merge: true });
+        });
+        removedHashtags.forEach(hashtag => {
+          transaction.set(admin.firestore().collection('trends').doc(hashtag), {
+            count: admin.firestore.FieldValue.increment(-1),
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          }, { merge: true });
+        });
+        
+        transaction.update(postRef, {
+          hashtags: newHashtags,
+          mentions: newMentions,
+          extractedAt: admin.firestore.FieldValue.serverTimestamp(),
+          editedAt: admin.firestore.FieldValue.serverTimestamp(),
+          editCount: admin.firestore.FieldValue.increment(1),
+        });
+      });
+      if (!applied) return;
+      
+      // Moderate the edited content, clearing an earlier flag it no longer earns
+      await processPostContent(postId, after, !!before.moderationStatus);
+      
+      // Only users the edit newly mentions hear about it
+      if (addedMentions.length > 0) {
+        await notifyMentionedUsers(postId, addedMentions, after);
+      }
+      
+      console.log(`Edit of post ${postId} processed: +${addedHashtags.length}/-${removedHashtags.length} hashtags, ${addedMentions.length} new mentions`);
+    } catch (error) {
+      console.error(`Error processing edit of post ${postId}:`, error);
+      await logError('onPostUpdate', error, { postId, authorId });
+    }
+  });
+
 /**
  * Post like trigger - processes likes and sends notifications
  */
@@ -73,20 +171,12 @@ export const onPostLike = functions.firestore
       const postData = postDoc.data() as PostData;
       const authorId = postData.authorId;
       
-      // Don't notify if user likes their own post
-      if (likerId === authorId) {
-        console.log('User liked their own post, skipping notification');
-        return;
-      }
+      // Update like count once per event; a redelivered event stops here
+      const counted = await updatePostCounter(context, 'onPostLike', postId, 'likesCount', 1);
+      if (!counted) return;
       
-      // Update like count atomically
-      await admin.firestore()
-        .collection('posts')
-        .doc(postId)
-        .update({
-          likesCount: admin.firestore.FieldValue.increment(1),
-          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-        });
+      // Don't notify if user likes their own post
+      if (isSelfLike(likerId, authorId, 'post')) return;
       
       // Get liker and author info
       const [likerData, authorData] = await Promise.all([
@@ -100,11 +190,9 @@ export const onPostLike = functions.firestore
       }
       
       // Send notification to post author
-      await NotificationService.sendNotificationToUser({
+      await notificationService.sendNotificationToUser({
         targetUserId: authorId,
         type: NotificationType.NEW_LIKE,
-        title: 'New Like ❤️',
-        body: `${likerData.displayName} liked your post`,
         data: {
           postId: postId,
           likerId: likerId,
@@ -134,14 +222,8 @@ export const onPostUnlike = functions.firestore
     try {
       console.log(`Processing unlike ${likeId} on post ${postId}`);
       
-      // Update like count atomically
-      await admin.firestore()
-        .collection('posts')
-        .doc(postId)
-        .update({
-          likesCount: admin.firestore.FieldValue.increment(-1),
-          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-        });
+      // Update like count once per event
+      await updatePostCounter(context, 'onPostUnlike', postId, 'likesCount', -1);
       
       console.log(`Unlike processed for post ${postId}`);
     } catch (error) {
@@ -151,16 +233,121 @@ export const onPostUnlike = functions.firestore
   });
 
 /**
- * Comment creation trigger - processes comments and sends notifications
+ * Comment like trigger - updates the comment's like count and notifies its author
+ */
+export const onCommentLike = functions.firestore
+  .document('posts/{postId}/comments/{commentId}/likes/{likeId}')
+  .onCreate(async (snapshot, context) => {
+    const postId = context.params.postId;
+    const commentId = context.params.commentId;
+    const likeId = context.params.likeId;
+    const likerId = snapshot.data().userId;
+    
+    try {
+      console.log(`Processing like ${likeId} on comment ${commentId} by user ${likerId}`);
+      
+      const commentRef = snapshot.ref.parent.parent!;
+      const commentDoc = await commentRef.get();
+      
+      if (!commentDoc.exists || commentDoc.data()!.isDeleted) {
+        console.log(`Comment ${commentId} not found or deleted`);
+        return;
+      }
+      
+      const commentData = commentDoc.data() as CommentData;
+      
+      // Update like count once per event; a redelivered event stops here
+      const counted = await applyEventOnce(context, 'onCommentLike', async (transaction) => {
+        transaction.update(commentRef, {
+          likesCount: admin.firestore.FieldValue.increment(1),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      });
+      if (!counted) return;
+      
+      // Don't notify if user likes their own comment
+      if (isSelfLike(likerId, commentData.authorId, 'comment')) return;
+      
+      const likerData = await getUserData(likerId);
+      if (!likerData) {
+        console.error(`Liker data not found for user ${likerId}`);
+        return;
+      }
+      
+      // Send notification to comment author
+      await notificationService.sendNotificationToUser({
+        targetUserId: commentData.authorId,
+        type: NotificationType.NEW_LIKE,
+        messageKey: 'comment_like',
+        data: {
+          postId: postId,
+          commentId: commentId,
+          likerId: likerId,
+          likerName: likerData.displayName,
+          likerAvatar: likerData.photoURL,
+          commentPreview: commentData.content.substring(0, 100),
+        },
+        priority: 'normal',
+      });
+      
+      console.log(`Like notification sent for comment ${commentId}`);
+    } catch (error) {
+      console.error(`Error processing like for comment ${commentId}:`, error);
+      await logError('onCommentLike', error, { postId, commentId, likeId, likerId });
+    }
+  });
+
+/**
+ * Comment unlike trigger - decrements the comment's like count
+ */
+export const onCommentUnlike = functions.firestore
+  .document('posts/{postId}/comments/{commentId}/likes/{likeId}')
+  .onDelete(async (snapshot, context) => {
+    const postId = context.params.postId;
+    const commentId = context.params.commentId;
+    const likeId = context.params.likeId;
+    
+    try {
+      console.log(`Processing unlike ${likeId} on comment ${commentId}`);
+      
+      const commentRef = snapshot.ref.parent.parent!;
+      
+      // Update like count once per event
+      await applyEventOnce(context, 'onCommentUnlike', async (transaction) => {
+        const commentDoc = await transaction.get(commentRef);
+        
+        // Gone with its post, or a tombstone that no longer counts likes
+        if (!commentDoc.exists || commentDoc.data()!.isDeleted) return;
+        
+        transaction.update(commentRef, {
+          likesCount: admin.firestore.FieldValue.increment(-1),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      });
+      
+      console.log(`Unlike processed for comment ${commentId}`);
+    } catch (error) {
+      console.error(`Error processing unlike for comment ${commentId}:`, error);
+      await logError('onCommentUnlike', error, { postId, commentId, likeId });
+    }
+  });
+
+/**
+ * Comment creation trigger - processes comments and replies and sends notifications
  */
 export const onCommentCreate = functions.firestore
   .document('posts/{postId}/comments/{commentId}')
   .onCreate(async (snapshot, context) => {
     const postId = context.params.postId;
     const commentId = context.params.commentId;
-    const commentData = snapshot.data();
+    const commentData = snapshot.data() as CommentData;
     const commenterId = commentData.authorId;
     
+    // Tombstones are re-created by onCommentDelete, they are not new comments
+    if (commentData.isDeleted) {
+      return;
+    }
+    
     try {
       console.log(`Processing comment ${commentId} on post ${postId} by user ${commenterId}`);
       
@@ -178,14 +365,31 @@ export const onCommentCreate = functions.firestore
       const postData = postDoc.data() as PostData;
       const postAuthorId = postData.authorId;
       
-      // Update comment count atomically
-      await admin.firestore()
-        .collection('posts')
-        .doc(postId)
-        .update({
-          commentsCount: admin.firestore.FieldValue.increment(1),
-          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-        });
+      // Attach replies to their thread, within the maximum depth
+      const thread = commentData.parentCommentId
+        ? await resolveCommentThread(postId, commentData.parentCommentId)
+        : null;
+      
+      // Update comment and reply counts once per event; a redelivered event stops here
+      const counted = await updatePostCounter(
+        context, 'onCommentCreate', postId, 'commentsCount', 1,
+        (transaction) => {
+          if (!thread) return;
+          transaction.update(snapshot.ref, {
+            parentCommentId: thread.parentRef?.id || null,
+            depth: thread.depth,
+            ...(thread.repliedTo && thread.parentRef?.id !== thread.repliedTo.commentId
+              ? { replyToCommentId: thread.repliedTo.commentId }
+              : {}),
+          });
+          if (thread.parentRef) {
+            transaction.update(thread.parentRef, {
+              repliesCount: admin.firestore.FieldValue.increment(1),
+            });
+          }
+        }
+      );
+      if (!counted) return;
       
       // Get commenter info
       const commenterData = await getUserData(commenterId);
@@ -194,22 +398,40 @@ export const onCommentCreate = functions.firestore
         return;
       }
       
+      const notificationData = {
+        postId: postId,
+        commentId: commentId,
+        commenterId: commenterId,
+        commenterName: commenterData.displayName,
+        commenterAvatar: commenterData.photoURL,
+        commentPreview: commentData.content.substring(0, 100),
+        postContent: postData.content.substring(0, 100),
+        ...(thread?.repliedTo ? { parentCommentId: thread.repliedTo.commentId } : {}),
+      };
+      
+      // Each person hears about a comment once, and never about their own
+      const notified = new Set<string>([commenterId]);
+      
+      // The author of the comment replied to gets the more specific reply notification
+      const repliedToAuthorId = thread?.repliedTo?.authorId;
+      if (repliedToAuthorId && !notified.has(repliedToAuthorId)) {
+        notified.add(repliedToAuthorId);
+        await notificationService.sendNotificationToUser({
+          targetUserId: repliedToAuthorId,
+          type: NotificationType.NEW_COMMENT,
+          messageKey: 'comment_reply',
+          data: notificationData,
+          priority: 'normal',
+        });
+      }
+      
       // Send notification to post author (if not commenting on own post)
-      if (commenterId !== postAuthorId) {
-        await NotificationService.sendNotificationToUser({
+      if (!notified.has(postAuthorId)) {
+        notified.add(postAuthorId);
+        await notificationService.sendNotificationToUser({
           targetUserId: postAuthorId,
           type: NotificationType.NEW_COMMENT,
-          title: 'New Comment 💬',
-          body: `${commenterData.displayName} commented on your post`,
-          data: {
-            postId: postId,
-            commentId: commentId,
-            commenterId: commenterId,
-            commenterName: commenterData.displayName,
-            commenterAvatar: commenterData.photoURL,
-            commentPreview: commentData.content.substring(0, 100),
-            postContent: postData.content.substring(0, 100),
-          },
+          data: notificationData,
           priority: 'normal',
         });
       }
@@ -217,7 +439,7 @@ export const onCommentCreate = functions.firestore
       // Process comment for moderation
       await processCommentContent(commentId, commentData);
       
-      console.log(`Comment notification sent for post ${postId}`);
+      console.log(`Comment notifications sent for post ${postId} to ${notified.size - 1} users`);
     } catch (error) {
       console.error(`Error processing comment for post ${postId}:`, error);
       await logError('onCommentCreate', error, { postId, commentId, commenterId });
@@ -225,33 +447,103 @@ export const onCommentCreate = functions.firestore
   });
 
 /**
- * Comment deletion trigger - decrements comment count
+ * Comment deletion trigger - decrements counts, leaving a tombstone for comments with replies
  */
 export const onCommentDelete = functions.firestore
   .document('posts/{postId}/comments/{commentId}')
   .onDelete(async (snapshot, context) => {
     const postId = context.params.postId;
     const commentId = context.params.commentId;
+    const commentData = snapshot.data() as CommentData;
     
     try {
       console.log(`Processing comment deletion ${commentId} on post ${postId}`);
       
-      // Update comment count atomically
-      await admin.firestore()
-        .collection('posts')
-        .doc(postId)
-        .update({
-          commentsCount: admin.firestore.FieldValue.increment(-1),
-          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-        });
+      const keepTombstone = !commentData.isDeleted && (commentData.repliesCount || 0) > 0;
+      const parentRef = commentData.parentCommentId && !keepTombstone
+        ? snapshot.ref.parent.doc(commentData.parentCommentId)
+        : null;
+      const parentDoc = parentRef ? await parentRef.get() : null;
+      
+      const threadWrites = (transaction: admin.firestore.Transaction) => {
+        if (keepTombstone) {
+          // Replies keep their parent; the content and author are gone
+          transaction.set(snapshot.ref, {
+            postId,
+            content: '',
+            parentCommentId: commentData.parentCommentId || null,
+            depth: commentData.depth || 0,
+            repliesCount: commentData.repliesCount,
+            likesCount: 0,
+            isDeleted: true,
+            createdAt: commentData.createdAt,
+            deletedAt: admin.firestore.FieldValue.serverTimestamp(),
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          });
+          return;
+        }
+        
+        if (parentDoc?.exists) {
+          const parent = parentDoc.data() as CommentData;
+          if (parent.isDeleted && (parent.repliesCount || 0) <= 1) {
+            // Last reply of a tombstone: the tombstone goes too
+            transaction.delete(parentDoc.ref);
+          } else {
+            transaction.update(parentDoc.ref, {
+              repliesCount: admin.firestore.FieldValue.increment(-1),
+            });
+          }
+        }
+      };
+      
+      // Tombstones were already taken off the comment count
+      if (commentData.isDeleted) {
+        await applyEventOnce(context, 'onCommentDelete', async (transaction) => threadWrites(transaction));
+      } else {
+        await updatePostCounter(context, 'onCommentDelete', postId, 'commentsCount', -1, threadWrites);
+      }
       
-      console.log(`Comment deletion processed for post ${postId}`);
+      console.log(`Comment deletion processed for post ${postId}${keepTombstone ? ' (tombstone kept)' : ''}`);
     } catch (error) {
       console.error(`Error processing comment deletion for post ${postId}:`, error);
       await logError('onCommentDelete', error, { postId, commentId });
     }
   });
 
+/**
+ * Post share trigger - increments share count
+ */
+export const onPostShare = functions.firestore
+  .document('posts/{postId}/shares/{shareId}')
+  .onCreate(async (snapshot, context) => {
+    const postId = context.params.postId;
+    const shareId = context.params.shareId;
+    
+    try {
+      await updatePostCounter(context, 'onPostShare', postId, 'sharesCount', 1);
+    } catch (error) {
+      console.error(`Error processing share for post ${postId}:`, error);
+      await logError('onPostShare', error, { postId, shareId });
+    }
+  });
+
+/**
+ * Post unshare trigger - decrements share count
+ */
+export const onPostUnshare = functions.firestore
+  .document('posts/{postId}/shares/{shareId}')
+  .onDelete(async (snapshot, context) => {
+    const postId = context.params.postId;
+    const shareId = context.params.shareId;
+    
+    try {
+      await updatePostCounter(context, 'onPostUnshare', postId, 'sharesCount', -1);
+    } catch (error) {
+      console.error(`Error processing unshare for post ${postId}:`, error);
+      await logError('onPostUnshare', error, { postId, shareId });
+    }
+  });
+
 /**
  * Post deletion trigger - cleanup and update counts
  */
@@ -280,7 +572,60 @@ export const onPostDelete = functions.firestore
 
 // Helper functions
 
-async function processPostContent(postId: string, postData: PostData): Promise<void> {
+function isPostEdit(before: PostData, after: PostData): boolean {
+  return EDITABLE_POST_FIELDS.some(field =>
+    JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null)
+  );
+}
+
+/**
+ * Likes on your own post or comment are counted but never notified
+ */
+function isSelfLike(likerId: string, authorId: string | undefined, target: 'post' | 'comment'): boolean {
+  if (likerId !== authorId) {
+    return false;
+  }
+  
+  console.log(`User liked their own ${target}, skipping notification`);
+  return true;
+}
+
+/**
+ * Find where a reply attaches. Replies to a comment at MAX_COMMENT_DEPTH
+ * become its siblings, remembering which comment they answered.
+ */
+async function resolveCommentThread(postId: string, parentCommentId: string): Promise<CommentThread> {
+  const commentsRef = admin.firestore()
+    .collection('posts')
+    .doc(postId)
+    .collection('comments');
+  
+  const repliedToDoc = await commentsRef.doc(parentCommentId).get();
+  if (!repliedToDoc.exists) {
+    console.warn(`Parent comment ${parentCommentId} not found on post ${postId}, treating reply as top-level`);
+    return { parentRef: null, depth: 0, repliedTo: null };
+  }
+  
+  const repliedTo = repliedToDoc.data() as CommentData;
+  const repliedToDepth = repliedTo.depth || 0;
+  const thread: CommentThread = {
+    parentRef: repliedToDoc.ref,
+    depth: repliedToDepth + 1,
+    repliedTo: {
+      commentId: repliedToDoc.id,
+      authorId: repliedTo.isDeleted ? null : repliedTo.authorId,
+    },
+  };
+  
+  if (repliedToDepth >= MAX_COMMENT_DEPTH) {
+    thread.parentRef = repliedTo.parentCommentId ? commentsRef.doc(repliedTo.parentCommentId) : null;
+    thread.depth = repliedToDepth;
+  }
+  
+  return thread;
+}
+
+async function processPostContent(postId: string, postData: PostData, wasModerated: boolean = false): Promise<void> {
   try {
     // Validate post content
     const validation = validatePostContent(postData.content);
@@ -306,6 +651,17 @@ async function processPostContent(postId: string, postData: PostData): Promise<v
       if (moderationResult.action !== 'allow') {
         await notifyModerators(postId, moderationResult);
       }
+    } else if (wasModerated) {
+      // An edit removed whatever was flagged before
+      await admin.firestore()
+        .collection('posts')
+        .doc(postId)
+        .update({
+          moderationStatus: 'allow',
+          moderationFlags: [],
+          moderationConfidence: moderationResult.confidence,
+          moderatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
     }
   } catch (error) {
     console.error(`Failed to process post content for ${postId}:`, error);
@@ -361,52 +717,21 @@ async function notifyFollowersOfNewPost(
   authorData: UserData
 ): Promise<void> {
   try {
-    // Get followers
-    const followersSnapshot = await admin.firestore()
-      .collection('follows')
-      .where('followingId', '==', authorId)
-      .where('isActive', '==', true)
-      .get();
-    
-    if (followersSnapshot.empty) {
-      console.log(`No followers found for user ${authorId}`);
-      return;
-    }
-    
-    console.log(`Notifying ${followersSnapshot.size} followers of new post ${postId}`);
-    
-    // Send notifications to followers in batches
-    const followerIds = followersSnapshot.docs.map(doc => doc.data().followerId);
-    const batchSize = 100;
-    
-    for (let i = 0; i < followerIds.length; i += batchSize) {
-      const batch = followerIds.slice(i, i + batchSize);
-      
-      const promises = batch.map(followerId =>
-        NotificationService.sendNotificationToUser({
-          targetUserId: followerId,
-          type: NotificationType.NEW_POST,
-          title: 'New Post',
-          body: `${authorData.displayName} shared a new post`,
-          data: {
-            postId: postId,
-            authorId: authorId,
-            authorName: authorData.displayName,
-            authorAvatar: authorData.photoURL,
-            postPreview: postData.content.substring(0, 100),
-          },
-          priority: 'normal',
-        }).catch(error => {
-          console.error(`Failed to notify follower ${followerId}:`, error);
-        })
-      );
-      
-      await Promise.allSettled(promises);
-    }
-    
-    console.log(`Finished notifying followers of post ${postId}`);
+    // Followers are paged and notified by the fan-out task triggers
+    await startFollowerFanout(postId, authorId, {
+      type: NotificationType.NEW_POST,
+      data: {
+        postId: postId,
+        authorId: authorId,
+        authorName: authorData.displayName,
+        authorAvatar: authorData.photoURL,
+        postPreview: postData.content.substring(0, 100),
+        hashtags: extractHashtags(postData.content), // for hashtag mutes
+      },
+      priority: 'normal',
+    });
   } catch (error) {
-    console.error(`Failed to notify followers of post ${postId}:`, error);
+    console.error(`Failed to start follower fan-out for post ${postId}:`, error);
   }
 }
 
@@ -434,8 +759,13 @@ async function processHashtagsAndMentions(postId: string, postData: PostData): P
     }
     
     // Notify mentioned users
-    if (mentions.length > 0) {
-      await notifyMentionedUsers(postId, mentions, postData);
+    const mentionedUserIds = mentions.length > 0
+      ? await notifyMentionedUsers(postId, mentions, postData)
+      : [];
+    
+    // Notify hashtag followers who have not already heard about this post
+    if (hashtags.length > 0) {
+      await notifyHashtagFollowers(postId, hashtags, postData, mentionedUserIds);
     }
   } catch (error) {
     console.error(`Failed to process hashtags and mentions for post ${postId}:`, error);
@@ -470,7 +800,7 @@ async function notifyMentionedUsers(
   postId: string,
   mentions: string[],
   postData: PostData
-): Promise<void> {
+): Promise<string[]> {
   try {
     // Get mentioned users by username
     const userPromises = mentions.map(async username => {
@@ -488,23 +818,22 @@ async function notifyMentionedUsers(
     
     if (validUsers.length === 0) {
       console.log('No valid mentioned users found');
-      return;
+      return [];
     }
     
     // Get author data for notifications
     const authorData = await getUserData(postData.authorId);
     if (!authorData) {
       console.error('Author data not found for mentions notification');
-      return;
+      return [];
     }
     
     // Send notifications
     const notificationPromises = validUsers.map(doc =>
-      NotificationService.sendNotificationToUser({
+      notificationService.sendNotificationToUser({
         targetUserId: doc!.id,
         type: NotificationType.NEW_POST,
-        title: 'You were mentioned',
-        body: `${authorData.displayName} mentioned you in a post`,
+        messageKey: 'mention',
         data: {
           postId: postId,
           authorId: postData.authorId,
@@ -521,8 +850,42 @@ async function notifyMentionedUsers(
     
     await Promise.allSettled(notificationPromises);
     console.log(`Notified ${validUsers.length} mentioned users`);
+    return validUsers.map(doc => doc!.id);
   } catch (error) {
     console.error('Failed to notify mentioned users:', error);
+    return [];
+  }
+}
+
+async function notifyHashtagFollowers(
+  postId: string,
+  hashtags: string[],
+  postData: PostData,
+  alreadyNotifiedUserIds: string[]
+): Promise<void> {
+  try {
+    const authorData = await getUserData(postData.authorId);
+    if (!authorData) {
+      console.error('Author data not found for hashtag notification');
+      return;
+    }
+    
+    // Hashtag followers are paged and notified by the fan-out task triggers
+    await startHashtagFanout(postId, postData.authorId, hashtags, alreadyNotifiedUserIds, {
+      type: NotificationType.NEW_POST,
+      messageKey: 'hashtag_post',
+      data: {
+        postId: postId,
+        authorId: postData.authorId,
+        authorName: authorData.displayName,
+        authorAvatar: authorData.photoURL,
+        postPreview: postData.content.substring(0, 100),
+        hashtags: hashtags, // for hashtag mutes
+      },
+      priority: 'normal',
+    });
+  } catch (error) {
+    console.error(`Failed to start hashtag fan-out for post ${postId}:`, error);
   }
 }
 
@@ -544,11 +907,10 @@ async function notifyModerators(
     }
     
     const moderatorPromises = moderatorsSnapshot.docs.map(doc =>
-      NotificationService.sendNotificationToUser({
+      notificationService.sendNotificationToUser({
         targetUserId: doc.id,
         type: NotificationType.SYSTEM_ALERT,
-        title: 'Content Flagged for Review',
-        body: `${contentType} ${contentId} needs moderation review`,
+        messageKey: 'moderation_review',
         data: {
           contentId: contentId,
           contentType: contentType,
@@ -572,31 +934,37 @@ async function notifyModerators(
 
 async function cleanupPostData(postId: string): Promise<void> {
   try {
-    const batch = admin.firestore().batch();
+    const postRef = admin.firestore().collection('posts').doc(postId);
+    const refs: admin.firestore.DocumentReference[] = [];
     
     // Delete likes
-    const likesSnapshot = await admin.firestore()
-      .collection('posts')
-      .doc(postId)
-      .collection('likes')
-      .get();
+    const likesSnapshot = await postRef.collection('likes').get();
+    likesSnapshot.docs.forEach(doc => refs.push(doc.ref));
     
-    likesSnapshot.docs.forEach(doc => {
-      batch.delete(doc.ref);
-    });
-    
-    // Delete comments
-    const commentsSnapshot = await admin.firestore()
-      .collection('posts')
-      .doc(postId)
-      .collection('comments')
-      .get();
-    
-    commentsSnapshot.docs.forEach(doc => {
-      batch.delete(doc.ref);
-    });
+    // Delete comments and the likes on them
+    const commentsSnapshot = await postRef.collection('comments').get();
+    const commentLikesSnapshots = await Promise.all(
+      commentsSnapshot.docs.map(doc => doc.ref.collection('likes').get())
+    );
+    commentLikesSnapshots.forEach(snapshot => snapshot.docs.forEach(doc => refs.push(doc.ref)));
+    commentsSnapshot.docs.forEach(doc => refs.push(doc.ref));
+    
+    // Delete shares
+    const sharesSnapshot = await postRef.collection('shares').get();
+    sharesSnapshot.docs.forEach(doc => refs.push(doc.ref));
+    
+    // Delete edit history
+    const revisionsSnapshot = await postRef.collection('revisions').get();
+    revisionsSnapshot.docs.forEach(doc => refs.push(doc.ref));
+    
+    // A batch holds at most 500 writes
+    for (let i = 0; i < refs.length; i += 500) {
+      const batch = admin.firestore().batch();
+      refs.slice(i, i + 500).forEach(ref => batch.delete(ref));
+      await batch.commit();
+    }
     
-    await batch.commit();
+    await deleteCounterShards(postId);
     console.log(`Cleaned up data for post ${postId}`);
   } catch (error) {
     console.error(`Failed to cleanup post data for ${postId}:`, error);
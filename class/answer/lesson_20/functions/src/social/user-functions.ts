@@ -1,7 +1,10 @@
 import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
-import { NotificationService } from '../notifications/notification-service';
+import { notificationService } from '../notifications/notification-service';
 import { NotificationType, UserData, FollowData } from '../types';
+import { requireAuth, createSuccessResponse } from '../utils/auth';
+import { applyEventOnce } from '../utils/event-ledger';
+import { isValidTimeZone } from '../utils/time-zone';
 
 /**
  * User creation trigger - initializes new user and sends welcome notification
@@ -28,7 +31,7 @@ export const onUserCreate = functions.auth.user().onCreate(async (user) => {
       createdAt: admin.firestore.FieldValue.serverTimestamp(),
       updatedAt: admin.firestore.FieldValue.serverTimestamp(),
       lastSeenAt: admin.firestore.FieldValue.serverTimestamp(),
-      fcmTokens: [],
+      timeZone: 'UTC',
       settings: {
         notifications: {
           pushNotifications: true,
@@ -39,6 +42,15 @@ export const onUserCreate = functions.auth.user().onCreate(async (user) => {
           follows: true,
           messages: true,
           posts: true,
+          system: true,
+          email: {
+            likes: false,
+            comments: false,
+            follows: true,
+            messages: true,
+            posts: false,
+            system: false,
+          },
           quietHours: {
             enabled: false,
             startTime: '22:00',
@@ -61,13 +73,12 @@ export const onUserCreate = functions.auth.user().onCreate(async (user) => {
     // Send welcome notification (delayed to ensure FCM token is available)
     setTimeout(async () => {
       try {
-        await NotificationService.sendNotificationToUser({
+        await notificationService.sendNotificationToUser({
           targetUserId: user.uid,
           type: NotificationType.WELCOME,
-          title: '🎉 Welcome to SocialHub Pro!',
-          body: `Hi ${user.displayName || 'there'}! Start connecting with friends.`,
           data: {
             userId: user.uid,
+            displayName: user.displayName || '',
             welcomeMessage: 'Welcome to our community!',
           },
           priority: 'normal',
@@ -138,8 +149,9 @@ export const onUserFollow = functions.firestore
     try {
       console.log(`Processing follow: ${followerId} -> ${followingId}`);
       
-      // Update follower/following counts
-      await updateFollowCounts(followerId, followingId, 1);
+      // Update follower/following counts; a redelivered event stops here
+      const counted = await updateFollowCounts(context, 'onUserFollow', followerId, followingId, 1);
+      if (!counted) return;
       
       // Get follower info for notification
       const followerData = await getUserData(followerId);
@@ -149,11 +161,10 @@ export const onUserFollow = functions.firestore
       }
       
       // Send notification to followed user
-      await NotificationService.sendNotificationToUser({
+      await notificationService.sendNotificationToUser({
         targetUserId: followingId,
         type: NotificationType.FRIEND_REQUEST,
-        title: 'New Follower 👋',
-        body: `${followerData.displayName} started following you`,
+        messageKey: 'new_follower',
         data: {
           followId: followId,
           followerId: followerId,
@@ -197,7 +208,8 @@ export const onUserUnfollow = functions.firestore
       console.log(`Processing unfollow: ${followerId} -> ${followingId}`);
       
       // Update follower/following counts
-      await updateFollowCounts(followerId, followingId, -1);
+      const counted = await updateFollowCounts(context, 'onUserUnfollow', followerId, followingId, -1);
+      if (!counted) return;
       
       // Log unfollow analytics
       await admin.firestore().collection('analytics').add({
@@ -279,6 +291,34 @@ export const onUserProfileUpdate = functions.firestore
     }
   });
 
+/**
+ * Set the calling user's IANA time zone (e.g. "Asia/Bangkok"), used for quiet
+ * hours, inbox day groups and scheduled reminders. Apps call it on launch.
+ */
+export const updateTimeZone = functions.https.onCall(async (data, context) => {
+  const uid = requireAuth(context);
+  const timeZone = data?.timeZone;
+
+  if (!timeZone || typeof timeZone !== 'string' || !isValidTimeZone(timeZone)) {
+    throw new functions.https.HttpsError('invalid-argument', 'Missing or invalid timeZone');
+  }
+
+  try {
+    // Store the canonical name, e.g. "asia/bangkok" becomes "Asia/Bangkok"
+    const canonical = new Intl.DateTimeFormat('en-US', { timeZone }).resolvedOptions().timeZone;
+
+    await admin.firestore().collection('users').doc(uid).update({
+      timeZone: canonical,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    return createSuccessResponse({ timeZone: canonical });
+  } catch (error) {
+    console.error(`Failed to update time zone for user ${uid}:`, error);
+    throw new functions.https.HttpsError('internal', 'Failed to update time zone');
+  }
+});
+
 // Helper functions
 
 async function initializeUserPreferences(userId: string): Promise<void> {
@@ -298,6 +338,15 @@ async function initializeUserPreferences(userId: string): Promise<void> {
         follows: true,
         messages: true,
         posts: true,
+        system: true,
+        email: {
+          likes: false,
+          comments: false,
+          follows: true,
+          messages: true,
+          posts: false,
+          system: false,
+        },
         quietHours: {
           enabled: false,
           startTime: '22:00',
@@ -347,6 +396,50 @@ async function deleteUserData(userId: string): Promise<void> {
       batch.delete(doc.ref);
     });
     
+    // Delete registered devices
+    const devicesSnapshot = await admin.firestore()
+      .collection('users')
+      .doc(userId)
+      .collection('devices')
+      .get();
+    
+    devicesSnapshot.docs.forEach(doc => {
+      batch.delete(doc.ref);
+    });
+    
+    // Delete hashtag follows
+    const hashtagFollowsSnapshot = await admin.firestore()
+      .collection('users')
+      .doc(userId)
+      .collection('hashtagFollows')
+      .get();
+    
+    hashtagFollowsSnapshot.docs.forEach(doc => {
+      batch.delete(doc.ref);
+    });
+    
+    // Delete notification mutes
+    const mutesSnapshot = await admin.firestore()
+      .collection('users')
+      .doc(userId)
+      .collection('mutes')
+      .get();
+    
+    mutesSnapshot.docs.forEach(doc => {
+      batch.delete(doc.ref);
+    });
+    
+    // Delete notification frequency counters
+    const countersSnapshot = await admin.firestore()
+      .collection('users')
+      .doc(userId)
+      .collection('notificationCounters')
+      .get();
+    
+    countersSnapshot.docs.forEach(doc => {
+      batch.delete(doc.ref);
+    });
+    
     // Delete user notifications
     const notificationsSnapshot = await admin.firestore()
       .collection('users')
@@ -427,36 +520,56 @@ async function anonymizeUserContent(userId: string): Promise<void> {
   }
 }
 
+/**
+ * Update both users' follow counts once per trigger event.
+ * Returns false for a redelivered event that was already counted.
+ */
 async function updateFollowCounts(
+  context: functions.EventContext,
+  trigger: string,
   followerId: string,
   followingId: string,
   increment: number
-): Promise<void> {
+): Promise<boolean> {
   try {
-    const batch = admin.firestore().batch();
-    
-    // Update follower's following count
     const followerRef = admin.firestore()
       .collection('users')
       .doc(followerId);
-    batch.update(followerRef, {
-      followingCount: admin.firestore.FieldValue.increment(increment),
-      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-    });
-    
-    // Update following user's follower count
     const followingRef = admin.firestore()
       .collection('users')
       .doc(followingId);
-    batch.update(followingRef, {
-      followersCount: admin.firestore.FieldValue.increment(increment),
-      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    
+    const counted = await applyEventOnce(context, trigger, async (transaction) => {
+      // Either user may be mid-deletion, which removes their follows too
+      const [followerDoc, followingDoc] = await Promise.all([
+        transaction.get(followerRef),
+        transaction.get(followingRef),
+      ]);
+      
+      // Update follower's following count
+      if (followerDoc.exists) {
+        transaction.update(followerRef, {
+          followingCount: admin.firestore.FieldValue.increment(increment),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      }
+      
+      // Update following user's follower count
+      if (followingDoc.exists) {
+        transaction.update(followingRef, {
+          followersCount: admin.firestore.FieldValue.increment(increment),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      }
     });
     
-    await batch.commit();
-    console.log(`Updated follow counts: ${followerId} -> ${followingId} (${increment})`);
+    if (counted) {
+      console.log(`Updated follow counts: ${followerId} -> ${followingId} (${increment})`);
+    }
+    return counted;
   } catch (error) {
     console.error(`Failed to update follow counts: ${followerId} -> ${followingId}:`, error);
+    return true; // Not a duplicate, so the rest of the trigger still runs
   }
 }
 
@@ -0,0 +1,75 @@
+/**
+ * An empty Firestore for unit tests: reads find nothing and writes are kept in
+ * `firestoreWrites`. Like the real client, a write with undefined anywhere in
+ * its value fails. Install it from the test file:
+ *
+ *   jest.mock('firebase-admin', () => require('../testing/firestore-fake').mockFirebaseAdmin());
+ */
+export const firestoreWrites: Array<{ path: string; value: any }> = [];
+
+export function mockFirebaseAdmin(): any {
+  const actual = jest.requireActual('firebase-admin');
+  let nextId = 0;
+
+  const write = (path: string, value: any) => {
+    const field = findUndefined(value, '');
+    if (field !== null) {
+      throw new Error(`Cannot use "undefined" as a Firestore value (found in field "${field}")`);
+    }
+    firestoreWrites.push({ path, value });
+  };
+
+  const emptySnapshot = { exists: false, empty: true, size: 0, docs: [], data: () => undefined, forEach: () => undefined };
+  const writer = {
+    get: async () => emptySnapshot,
+    set: (ref: any, value: any) => write(ref.path, value),
+    update: (ref: any, value: any) => write(ref.path, value),
+    create: (ref: any, value: any) => write(ref.path, value),
+    delete: () => undefined,
+    commit: async () => undefined,
+  };
+
+  const ref = (path: string): any => new Proxy({}, {
+    get: (_target, prop) => {
+      switch (prop) {
+        case 'then': return undefined;
+        case 'id': return path.split('/').pop();
+        case 'path': return path;
+        case 'collection': return (name: string) => ref(path ? `${path}/${name}` : name);
+        case 'doc': return (id?: string) => ref(`${path}/${id || `generated-${++nextId}`}`);
+        case 'get': return async () => emptySnapshot;
+        case 'getAll': return async (...refs: any[]) => refs.map(() => emptySnapshot);
+        case 'count': return () => ({ get: async () => ({ data: () => ({ count: 0 }) }) });
+        case 'add': return async (value: any) => {
+          const doc = ref(`${path}/generated-${++nextId}`);
+          write(doc.path, value);
+          return doc;
+        };
+        case 'set':
+        case 'update':
+        case 'create': return async (value: any) => write(path, value);
+        case 'delete': return async () => undefined;
+        case 'batch': return () => writer;
+        case 'runTransaction': return (fn: (transaction: any) => Promise<any>) => fn(writer);
+        default: return () => ref(path); // where, orderBy, limit, ...
+      }
+    },
+  });
+
+  return Object.create(actual, {
+    firestore: { value: Object.assign(() => ref(''), actual.firestore) },
+  });
+}
+
+// Helper functions
+
+function findUndefined(value: any, field: string): string | null {
+  if (value === undefined) return field;
+  if (Array.isArray(value) || (value && Object.getPrototypeOf(value) === Object.prototype)) {
+    for (const [key, child] of Object.entries(value)) {
+      const found = findUndefined(child, field ? `${field}.${key}` : key);
+      if (found !== null) return found;
+    }
+  }
+  return null;
+}
@@ -1,11 +1,12 @@
 import * as admin from 'firebase-admin';
 
 export interface NotificationData {
-  title: string;
-  body: string;
+  title?: string; // overrides the localized template title
+  body?: string;  // overrides the localized template body
   type: NotificationType;
   targetUserId: string;
-  data?: Record<string, any>;
+  messageKey?: string; // catalog entry, defaults to the type
+  data?: Record<string, any>; // template arguments and payload
   priority?: 'high' | 'normal';
   icon?: string;
   sound?: string;
@@ -23,6 +24,119 @@ export enum NotificationType {
   REMINDER = 'reminder',
 }
 
+export interface NotificationActor {
+  id: string;
+  name: string;
+  avatar?: string | null;
+}
+
+export interface DeliveryFailure {
+  token: string | null; // null for topic/condition sends
+  errorCode: string;
+  errorMessage: string;
+}
+
+export interface DeliveryReport {
+  targetType: NotificationTarget['type'];
+  totalCount: number;
+  successCount: number;
+  failureCount: number;
+  messageIds: string[];
+  failures: DeliveryFailure[];
+  dryRun: boolean;
+}
+
+export type MuteKind = 'user' | 'post' | 'hashtag';
+
+/**
+ * Who and what a notification is about, for mute checks
+ */
+export interface NotificationContext {
+  actorId?: string;
+  postId?: string;
+  hashtags?: string[];
+}
+
+export type NotificationActionId = 'reply' | 'follow_back' | 'accept' | 'decline';
+
+/**
+ * A button on a push notification. `input` asks for text (e.g. a reply).
+ */
+export interface NotificationAction {
+  action: NotificationActionId;
+  title: string;
+  input?: boolean;
+  destructive?: boolean;
+}
+
+export interface NotificationExperimentVariant {
+  id: string;
+  weight: number;
+  messageKey?: string; // catalog entry for this variant; omitted for control
+}
+
+export interface NotificationExperiment {
+  id: string;
+  type: NotificationType;
+  messageKey: string; // the copy under test
+  active: boolean;
+  variants: NotificationExperimentVariant[];
+}
+
+export interface ExperimentAssignment {
+  experimentId: string;
+  variantId: string;
+  messageKey: string;
+}
+
+export type UserNotificationStatus =
+  | 'sent'
+  | 'blocked_by_preferences'
+  | 'deferred_by_quiet_hours'
+  | 'already_aggregated'
+  | 'capped_by_frequency'
+  | 'no_devices' // stored in the inbox only
+  | 'retry_scheduled'; // push failed for now, queued in pendingNotifications
+
+export interface UserNotificationResult {
+  status: UserNotificationStatus;
+  report?: DeliveryReport;
+  scheduledId?: string;
+  retryId?: string;
+}
+
+/**
+ * A push whose first send failed. Only the push is retried; the inbox record
+ * it belongs to was stored on the first attempt.
+ */
+export interface PendingPushData {
+  targetUserId: string;
+  notificationId: string;
+  template: NotificationTemplate;
+  options: Record<string, any>;
+}
+
+export interface ScheduleRecurrence {
+  cron: string; // five-field cron, evaluated in timeZone
+  timeZone: string;
+  endsAt?: admin.firestore.Timestamp | null;
+}
+
+export type ScheduledNotificationStatus = 'scheduled' | 'sent' | 'failed' | 'cancelled' | 'completed';
+
+export interface ScheduledNotificationData {
+  id: string;
+  target: NotificationTarget;
+  template: NotificationTemplate;
+  options: Record<string, any>;
+  scheduleTime: admin.firestore.Timestamp;
+  status: ScheduledNotificationStatus;
+  createdBy: string | null;
+  recurrence: ScheduleRecurrence | null;
+  sendCount: number;
+  createdAt: admin.firestore.Timestamp;
+}
+
 export interface UserTokens {
   fcmTokens: string[];
   lastUpdated: admin.firestore.Timestamp;
@@ -36,6 +150,30 @@ export interface CloudFunctionResponse<T = any> {
   requestId?: string;
 }
 
+export interface InboxNotification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  data: Record<string, any>;
+  isRead: boolean;
+  createdAt: string; // ISO
+  actors: NotificationActor[];
+  actorCount: number;
+}
+
+export interface NotificationDayGroup {
+  date: string; // YYYY-MM-DD in the user's time zone
+  notifications: InboxNotification[];
+}
+
+export interface NotificationInboxPage {
+  groups: NotificationDayGroup[];
+  nextCursor: string | null;
+  hasMore: boolean;
+  unreadCount: number;
+}
+
 export interface NotificationTemplate {
   title: string;
   body: string;
@@ -64,10 +202,47 @@ export interface PostData {
   commentsCount: number;
   sharesCount: number;
   visibility: string;
+  counterWindow?: PostCounterWindow;
+  counterShards?: PostCounterShards;
+  moderationStatus?: ModerationResult['action'];
+  editedAt?: admin.firestore.Timestamp; // set when the content was last edited
+  editCount?: number;
   createdAt: admin.firestore.Timestamp;
   updatedAt: admin.firestore.Timestamp;
 }
 
+// A post's content as it was before an edit, in posts/{postId}/revisions
+export interface PostRevision {
+  id: string;
+  content: string;
+  imageUrls: string[];
+  hashtags: string[];
+  mentions: string[];
+  moderationStatus: ModerationResult['action'] | null;
+  versionAt: admin.firestore.Timestamp; // when this version was posted or edited
+  revisedAt: admin.firestore.Timestamp; // when it was replaced
+}
+
+export type PostCounterField = 'likesCount' | 'commentsCount' | 'sharesCount';
+
+// Counter writes to the post document in the current rate window
+export interface PostCounterWindow {
+  startedAt: admin.firestore.Timestamp;
+  writes: number;
+}
+
+/**
+ * Set once a post's counters move to shards. `applied` is the shard total
+ * already rolled up onto the post's counts.
+ */
+export interface PostCounterShards {
+  enabled: boolean;
+  shardCount: number;
+  enabledAt: admin.firestore.Timestamp;
+  applied: Partial<Record<PostCounterField, number>>;
+  rolledUpAt?: admin.firestore.Timestamp;
+}
+
 export interface CommentData {
   id: string;
   postId: string;
@@ -76,7 +251,12 @@ export interface CommentData {
   authorAvatar?: string;
   content: string;
   likesCount: number;
-  parentCommentId?: string;
+  parentCommentId?: string | null;
+  replyToCommentId?: string; // set when a reply was moved up to the maximum depth
+  depth?: number; // 0 for top-level comments
+  repliesCount?: number;
+  isDeleted?: boolean; // tombstone kept so replies stay attached
+  deletedAt?: admin.firestore.Timestamp;
   createdAt: admin.firestore.Timestamp;
   updatedAt: admin.firestore.Timestamp;
 }
@@ -97,6 +277,39 @@ export interface FollowData {
   isActive: boolean;
 }
 
+export type FriendRequestStatus = 'pending' | 'accepted' | 'declined';
+
+/**
+ * friendRequests/{requesterId}_{recipientId}
+ */
+export interface FriendRequestData {
+  id: string;
+  requesterId: string;
+  recipientId: string;
+  status: FriendRequestStatus;
+  createdAt: admin.firestore.Timestamp;
+  respondedAt?: admin.firestore.Timestamp;
+}
+
+/**
+ * chats/{chatId}; messages live in chats/{chatId}/messages
+ */
+export interface ChatData {
+  id: string;
+  participants: string[]; // user IDs
+  lastMessage?: { senderId: string; text: string; messageId: string } | null;
+  lastMessageAt?: admin.firestore.Timestamp | null;
+  createdAt: admin.firestore.Timestamp;
+}
+
+export interface ChatMessageData {
+  id: string;
+  senderId: string;
+  text: string; // plain text
+  source?: 'app' | 'notification_action';
+  createdAt: admin.firestore.Timestamp;
+}
+
 export interface UserData {
   id: string;
   email: string;
@@ -112,9 +325,41 @@ export interface UserData {
   createdAt: admin.firestore.Timestamp;
   updatedAt: admin.firestore.Timestamp;
   lastSeenAt?: admin.firestore.Timestamp;
+  timeZone?: string; // IANA name, e.g. "Asia/Bangkok"
+  settings?: {
+    language?: string;
+    theme?: string;
+    notifications?: NotificationPreferences;
+  };
+  /** @deprecated Tokens live in the users/{uid}/devices subcollection */
   fcmTokens?: string[];
 }
 
+export type DevicePlatform = 'ios' | 'android' | 'web';
+
+export interface DeviceData {
+  id: string;
+  token: string;
+  platform: DevicePlatform;
+  appVersion?: string | null;
+  locale?: string | null;
+  createdAt: admin.firestore.Timestamp;
+  updatedAt: admin.firestore.Timestamp;
+  lastSeenAt: admin.firestore.Timestamp;
+}
+
+/**
+ * Admin broadcast audience. All given conditions must match.
+ */
+export interface BroadcastAudienceFilter {
+  languages?: string[]; // settings.language
+  activeWithinDays?: number; // lastSeenAt within the last N days
+  inactiveForDays?: number; // lastSeenAt older than N days
+  isVerified?: boolean;
+  platforms?: DevicePlatform[]; // has at least one device on these platforms
+  interests?: string[]; // shares at least one interest
+}
+
 export interface ModerationResult {
   flagged: boolean;
   flags: string[];
@@ -138,15 +383,20 @@ export interface BatchOperation {
   data?: any;
 }
 
-export interface NotificationPreferences {
-  pushNotifications: boolean;
-  emailNotifications: boolean;
-  inAppNotifications: boolean;
+export interface NotificationCategoryPreferences {
   likes: boolean;
   comments: boolean;
   follows: boolean;
   messages: boolean;
   posts: boolean;
+  system?: boolean; // announcements and reminders, including admin broadcasts
+}
+
+export interface NotificationPreferences extends NotificationCategoryPreferences {
+  pushNotifications: boolean;
+  emailNotifications: boolean;
+  inAppNotifications: boolean;
+  email?: NotificationCategoryPreferences; // per-type email opt-in
   quietHours: {
     enabled: boolean;
     startTime: string; // "22:00"
@@ -0,0 +1,32 @@
+import { getNextCronOccurrence } from './cron';
+
+describe('getNextCronOccurrence', () => {
+  const next = (expression: string, after: string, timeZone = 'UTC') =>
+    getNextCronOccurrence(expression, new Date(after), timeZone)?.toISOString() ?? null;
+
+  it('fires later in the current hour', () => {
+    expect(next('*/15 * * * *', '2026-01-10T10:07:30Z')).toBe('2026-01-10T10:15:00.000Z');
+    expect(next('* * * * *', '2026-01-10T10:07:00Z')).toBe('2026-01-10T10:08:00.000Z');
+  });
+
+  it('moves to the next hour and day once today has passed', () => {
+    expect(next('5 9-17 * * *', '2026-01-10T10:30:00Z')).toBe('2026-01-10T11:05:00.000Z');
+    expect(next('0 9 * * *', '2026-01-10T09:00:00Z')).toBe('2026-01-11T09:00:00.000Z');
+  });
+
+  it('skips to the next matching month and weekday', () => {
+    expect(next('0 8 1 6 *', '2026-01-10T10:00:00Z')).toBe('2026-06-01T08:00:00.000Z');
+    expect(next('30 7 * * 1', '2026-01-10T10:00:00Z')).toBe('2026-01-12T07:30:00.000Z');
+    expect(next('0 0 29 2 *', '2026-03-01T00:00:00Z')).toBe('2028-02-29T00:00:00.000Z');
+  });
+
+  it('evaluates the wall clock of the time zone', () => {
+    expect(next('0 9 * * *', '2026-01-10T03:00:00Z', 'Asia/Bangkok')).toBe('2026-01-11T02:00:00.000Z');
+    // 02:30 does not exist when New York springs forward
+    expect(next('30 2 * * *', '2026-03-08T06:00:00Z', 'America/New_York')).toBe('2026-03-08T07:30:00.000Z');
+  });
+
+  it('returns null for dates that never occur', () => {
+    expect(next('0 0 31 2 *', '2026-01-10T10:00:00Z')).toBeNull();
+  });
+});
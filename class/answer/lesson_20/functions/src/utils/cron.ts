@@ -0,0 +1,171 @@
+import { getZonedDateParts, zonedTimeToUtc } from './time-zone';
+
+/**
+ * Five-field cron expressions: minute hour day-of-month month day-of-week.
+ * Fields accept *, numbers, ranges (1-5), lists (1,15) and steps (*\/15, 9-17/2).
+ * Day-of-week is 0-6 with 0 (or 7) for Sunday.
+ */
+
+interface CronSchedule {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+// Look ahead far enough for Feb 29 schedules
+const MAX_LOOKAHEAD_DAYS = 366 * 8;
+
+const parsedSchedules = new Map<string, CronSchedule>();
+
+/**
+ * Describe what is wrong with a cron expression, or null when it is valid
+ */
+export function getCronExpressionError(expression: string): string | null {
+  try {
+    parseCronExpression(expression);
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+/**
+ * Next time the expression fires strictly after `after`, evaluated on the wall
+ * clock of the given time zone. Returns null if it never fires (e.g. "0 0 31 2 *").
+ */
+export function getNextCronOccurrence(
+  expression: string,
+  after: Date,
+  timeZone: string
+): Date | null {
+  const schedule = parseCronExpression(expression);
+  const start = getZonedDateParts(after, timeZone);
+
+  // Walk local calendar days; Date.UTC only does the calendar arithmetic here
+  for (let offset = 0; offset <= MAX_LOOKAHEAD_DAYS; offset++) {
+    const day = new Date(Date.UTC(start.year, start.month - 1, start.day + offset));
+    const year = day.getUTCFullYear();
+    const month = day.getUTCMonth() + 1;
+    const date = day.getUTCDate();
+
+    if (!schedule.months.has(month)) {
+      // Skip the rest of the month; the next pass starts on the 1st
+      offset += new Date(Date.UTC(year, month, 0)).getUTCDate() - date;
+      continue;
+    }
+    if (!matchesDay(schedule, date, day.getUTCDay())) {
+      continue;
+    }
+
+    // Later days start from their first hour and minute; the start day skips
+    // straight to the current hour and minute
+    const isStartDay = offset === 0;
+    const hours = isStartDay ? valuesFrom(schedule.hours, start.hour) : schedule.hours;
+
+    for (const hour of hours) {
+      const minutes = isStartDay && hour === start.hour
+        ? valuesFrom(schedule.minutes, start.minute)
+        : schedule.minutes;
+
+      for (const minute of minutes) {
+        const candidate = zonedTimeToUtc(year, month, date, hour, minute, timeZone);
+        if (candidate.getTime() > after.getTime()) {
+          return candidate;
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+// Helper functions
+
+function parseCronExpression(expression: string): CronSchedule {
+  const cached = parsedSchedules.get(expression);
+  if (cached) {
+    return cached;
+  }
+
+  const fields = (expression || '').trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields: ${expression}`);
+  }
+
+  const values = fields.map((field, index) => parseField(field, FIELD_RANGES[index]));
+  const schedule: CronSchedule = {
+    minutes: values[0],
+    hours: values[1],
+    daysOfMonth: new Set(values[2]),
+    months: new Set(values[3]),
+    daysOfWeek: new Set(values[4].map(day => day % 7)),
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*',
+  };
+
+  parsedSchedules.set(expression, schedule);
+  return schedule;
+}
+
+/**
+ * The sorted values at or after `min`
+ */
+function valuesFrom(values: number[], min: number): number[] {
+  const index = values.findIndex(value => value >= min);
+  return index === -1 ? [] : values.slice(index);
+}
+
+function matchesDay(schedule: CronSchedule, dayOfMonth: number, dayOfWeek: number): boolean {
+  const domMatch = schedule.daysOfMonth.has(dayOfMonth);
+  const dowMatch = schedule.daysOfWeek.has(dayOfWeek);
+
+  // Standard cron: when both fields are restricted, either one matching is enough
+  if (schedule.anyDayOfMonth) return dowMatch;
+  if (schedule.anyDayOfWeek) return domMatch;
+  return domMatch || dowMatch;
+}
+
+function parseField(field: string, [min, max]: [number, number]): number[] {
+  const values = new Set<number>();
+
+  field.split(',').forEach(part => {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : parseInt(stepPart, 10);
+    if (!Number.isInteger(step) || step < 1 || (stepPart !== undefined && !/^\d+$/.test(stepPart))) {
+      throw new Error(`Invalid step in cron field: ${field}`);
+    }
+
+    let start = min;
+    let end = max;
+    if (rangePart !== '*') {
+      const match = /^(\d+)(?:-(\d+))?$/.exec(rangePart);
+      if (!match) {
+        throw new Error(`Invalid cron field: ${field}`);
+      }
+      start = parseInt(match[1], 10);
+      end = match[2] !== undefined ? parseInt(match[2], 10) : (stepPart !== undefined ? max : start);
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`Cron field out of range (${min}-${max}): ${field}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  });
+
+  return [...values].sort((a, b) => a - b);
+}
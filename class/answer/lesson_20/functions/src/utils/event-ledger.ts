@@ -0,0 +1,73 @@
+import * as admin from 'firebase-admin';
+import * as functions from 'firebase-functions';
+
+/**
+ * Background triggers are delivered at least once, so a retried event would
+ * apply its counter updates twice. Each event ID is recorded in
+ * `processedEvents` in the same transaction as the updates; a redelivery finds
+ * it there and does nothing. Entries outlive Firestore's retry window and are
+ * then removed by deleteExpiredEvents.
+ */
+export const PROCESSED_EVENT_TTL_MS = 8 * 24 * 60 * 60 * 1000;
+
+const CLEANUP_BATCH_SIZE = 500;
+
+/**
+ * Run `apply` once per trigger event. It gets the transaction and may read
+ * before writing. Returns false when the event was already processed.
+ */
+export async function applyEventOnce(
+  context: functions.EventContext,
+  trigger: string,
+  apply: (transaction: admin.firestore.Transaction) => Promise<void>
+): Promise<boolean> {
+  const ledgerRef = admin.firestore().collection('processedEvents').doc(context.eventId);
+
+  const applied = await admin.firestore().runTransaction(async (transaction) => {
+    const ledgerDoc = await transaction.get(ledgerRef);
+    if (ledgerDoc.exists) {
+      return false;
+    }
+
+    await apply(transaction);
+
+    transaction.create(ledgerRef, {
+      trigger,
+      processedAt: admin.firestore.FieldValue.serverTimestamp(),
+      expiresAt: admin.firestore.Timestamp.fromMillis(Date.now() + PROCESSED_EVENT_TTL_MS),
+    });
+    return true;
+  });
+
+  if (!applied) {
+    console.log(`Skipping duplicate ${trigger} event ${context.eventId}`);
+  }
+  return applied;
+}
+
+/**
+ * Delete ledger entries past their expiry, at most maxBatches batches per run.
+ * Returns the number deleted.
+ */
+export async function deleteExpiredEvents(maxBatches: number = 20): Promise<number> {
+  let deleted = 0;
+
+  for (let i = 0; i < maxBatches; i++) {
+    const snapshot = await admin.firestore()
+      .collection('processedEvents')
+      .where('expiresAt', '<', admin.firestore.Timestamp.now())
+      .limit(CLEANUP_BATCH_SIZE)
+      .get();
+
+    if (snapshot.empty) break;
+
+    const batch = admin.firestore().batch();
+    snapshot.docs.forEach(doc => batch.delete(doc.ref));
+    await batch.commit();
+
+    deleted += snapshot.size;
+    if (snapshot.size < CLEANUP_BATCH_SIZE) break;
+  }
+
+  return deleted;
+}
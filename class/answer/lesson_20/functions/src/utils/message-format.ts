@@ -0,0 +1,210 @@
+/**
+ * Minimal ICU MessageFormat: {name}, {count, plural, =0 {...} one {...} other {...}}
+ * with # for the number, and {gender, select, female {...} other {...}}.
+ * Missing arguments render as an empty string.
+ */
+
+type MessageNode =
+  | { kind: 'text'; value: string }
+  | { kind: 'argument'; name: string }
+  | { kind: 'pound' }
+  | { kind: 'plural' | 'select'; name: string; offset: number; options: Record<string, MessageNode[]> };
+
+const parsedMessages = new Map<string, MessageNode[]>();
+
+export function formatMessage(
+  pattern: string,
+  args: Record<string, any> = {},
+  locale: string = 'en'
+): string {
+  let nodes = parsedMessages.get(pattern);
+  if (!nodes) {
+    nodes = new MessageParser(pattern).parse();
+    parsedMessages.set(pattern, nodes);
+  }
+  return renderNodes(nodes, args, locale, null);
+}
+
+/**
+ * Names of every argument a message uses. Throws on syntax errors.
+ */
+export function getMessageArguments(pattern: string): string[] {
+  const names = new Set<string>();
+
+  const collect = (nodes: MessageNode[]) => {
+    nodes.forEach(node => {
+      if (node.kind === 'argument') {
+        names.add(node.name);
+      } else if (node.kind === 'plural' || node.kind === 'select') {
+        names.add(node.name);
+        Object.values(node.options).forEach(collect);
+      }
+    });
+  };
+
+  collect(new MessageParser(pattern).parse());
+  return [...names];
+}
+
+function renderNodes(
+  nodes: MessageNode[],
+  args: Record<string, any>,
+  locale: string,
+  pluralValue: number | null
+): string {
+  return nodes.map(node => {
+    switch (node.kind) {
+      case 'text':
+        return node.value;
+      case 'pound':
+        return pluralValue === null ? '#' : new Intl.NumberFormat(locale).format(pluralValue);
+      case 'argument': {
+        const value = args[node.name];
+        return value === undefined || value === null ? '' : String(value);
+      }
+      case 'plural': {
+        const value = Number(args[node.name]) || 0;
+        const exact = node.options[`=${value}`];
+        if (exact) {
+          return renderNodes(exact, args, locale, value - node.offset);
+        }
+        const category = new Intl.PluralRules(locale).select(value - node.offset);
+        const branch = node.options[category] || node.options.other || [];
+        return renderNodes(branch, args, locale, value - node.offset);
+      }
+      case 'select': {
+        const branch = node.options[String(args[node.name])] || node.options.other || [];
+        return renderNodes(branch, args, locale, pluralValue);
+      }
+    }
+  }).join('');
+}
+
+class MessageParser {
+  private pos = 0;
+
+  constructor(private source: string) {}
+
+  parse(): MessageNode[] {
+    const nodes = this.parseNodes(false);
+    if (this.pos < this.source.length) {
+      throw new Error(`Unexpected '}' at ${this.pos} in message: ${this.source}`);
+    }
+    return nodes;
+  }
+
+  private parseNodes(inPlural: boolean): MessageNode[] {
+    const nodes: MessageNode[] = [];
+    let text = '';
+
+    const flushText = () => {
+      if (text) {
+        nodes.push({ kind: 'text', value: text });
+        text = '';
+      }
+    };
+
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos];
+
+      if (char === '}') {
+        break;
+      }
+
+      if (char === '{') {
+        flushText();
+        nodes.push(this.parseArgument(inPlural));
+      } else if (char === '#' && inPlural) {
+        flushText();
+        nodes.push({ kind: 'pound' });
+        this.pos++;
+      } else if (char === '\'' && this.source[this.pos + 1] === '\'') {
+        text += '\'';
+        this.pos += 2;
+      } else {
+        text += char;
+        this.pos++;
+      }
+    }
+
+    flushText();
+    return nodes;
+  }
+
+  private parseArgument(inPlural: boolean): MessageNode {
+    this.expect('{');
+    const name = this.readUntil([',', '}']).trim();
+
+    if (this.source[this.pos] === '}') {
+      this.pos++;
+      return { kind: 'argument', name };
+    }
+
+    this.expect(',');
+    const type = this.readUntil([',', '}']).trim();
+
+    if (type !== 'plural' && type !== 'select') {
+      // Unsupported formats ({n, number}) render as plain arguments
+      this.readUntil(['}']);
+      this.expect('}');
+      return { kind: 'argument', name };
+    }
+
+    this.expect(',');
+    const options: Record<string, MessageNode[]> = {};
+    let offset = 0;
+
+    for (;;) {
+      this.skipWhitespace();
+      if (this.source[this.pos] === '}') {
+        this.pos++;
+        break;
+      }
+
+      const selector = this.readUntil(['{', ' ', '\n', '\t']).trim();
+      if (!selector) {
+        throw new Error(`Missing selector at ${this.pos} in message: ${this.source}`);
+      }
+
+      if (selector.startsWith('offset:')) {
+        offset = parseInt(selector.substring('offset:'.length), 10) || 0;
+        continue;
+      }
+
+      this.skipWhitespace();
+      this.expect('{');
+      options[selector] = this.parseNodes(type === 'plural' || inPlural);
+      this.expect('}');
+    }
+
+    if (!options.other) {
+      throw new Error(`Missing 'other' option for ${name} in message: ${this.source}`);
+    }
+
+    return { kind: type, name, offset, options };
+  }
+
+  private readUntil(stops: string[]): string {
+    const start = this.pos;
+    while (this.pos < this.source.length && !stops.includes(this.source[this.pos])) {
+      this.pos++;
+    }
+    if (this.pos >= this.source.length) {
+      throw new Error(`Unterminated argument in message: ${this.source}`);
+    }
+    return this.source.substring(start, this.pos);
+  }
+
+  private skipWhitespace(): void {
+    while (/\s/.test(this.source[this.pos] || '')) {
+      this.pos++;
+    }
+  }
+
+  private expect(char: string): void {
+    if (this.source[this.pos] !== char) {
+      throw new Error(`Expected '${char}' at ${this.pos} in message: ${this.source}`);
+    }
+    this.pos++;
+  }
+}
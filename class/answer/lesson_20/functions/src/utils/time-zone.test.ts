@@ -0,0 +1,27 @@
+import { getDailyWindowEnd } from './time-zone';
+
+describe('getDailyWindowEnd', () => {
+  it('ends a window at the local end time', () => {
+    // 23:30 in Bangkok (UTC+7)
+    expect(getDailyWindowEnd(new Date('2026-01-10T16:30:00Z'), '22:00', '08:00', 'Asia/Bangkok'))
+      .toEqual(new Date('2026-01-11T01:00:00Z'));
+    expect(getDailyWindowEnd(new Date('2026-01-10T10:00:00Z'), '09:00', '17:00', 'UTC'))
+      .toEqual(new Date('2026-01-10T17:00:00Z'));
+  });
+
+  it('returns null outside the window', () => {
+    expect(getDailyWindowEnd(new Date('2026-01-10T10:00:00Z'), '22:00', '08:00', 'UTC')).toBeNull();
+  });
+
+  it('follows the clock when DST starts inside the window', () => {
+    // 23:00 EST; clocks jump from 02:00 to 03:00, so 08:00 EDT is 12:00Z
+    expect(getDailyWindowEnd(new Date('2026-03-08T04:00:00Z'), '22:00', '08:00', 'America/New_York'))
+      .toEqual(new Date('2026-03-08T12:00:00Z'));
+  });
+
+  it('follows the clock when DST ends inside the window', () => {
+    // 23:00 EDT; clocks fall back from 02:00 to 01:00, so 08:00 EST is 13:00Z
+    expect(getDailyWindowEnd(new Date('2026-11-01T03:00:00Z'), '22:00', '08:00', 'America/New_York'))
+      .toEqual(new Date('2026-11-01T13:00:00Z'));
+  });
+});
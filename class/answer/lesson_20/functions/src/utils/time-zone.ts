@@ -0,0 +1,141 @@
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function parseTimeOfDay(time: string): number | null {
+  const match = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(time || '');
+  if (!match) {
+    return null;
+  }
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
+
+/**
+ * Minutes since local midnight for the given instant in the given time zone
+ */
+export function getLocalMinutesOfDay(date: Date, timeZone: string): number {
+  const zone = isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: zone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const hour = parseInt(parts.find(part => part.type === 'hour')?.value || '0', 10);
+  const minute = parseInt(parts.find(part => part.type === 'minute')?.value || '0', 10);
+  return (hour % 24) * 60 + minute;
+}
+
+/**
+ * Returns the instant a daily window ends if `date` falls inside it, otherwise null.
+ * Windows where start is after end wrap past midnight ("22:00" - "08:00"). The end
+ * is the local wall-clock time, so a DST change inside the window moves it with
+ * the clock.
+ */
+export function getDailyWindowEnd(
+  date: Date,
+  startTime: string,
+  endTime: string,
+  timeZone: string
+): Date | null {
+  const start = parseTimeOfDay(startTime);
+  const end = parseTimeOfDay(endTime);
+  if (start === null || end === null || start === end) {
+    return null;
+  }
+
+  const now = getLocalMinutesOfDay(date, timeZone);
+  const inside = start < end
+    ? now >= start && now < end
+    : now >= start || now < end;
+
+  if (!inside) {
+    return null;
+  }
+
+  // The end is later today, or tomorrow for a window that wrapped past midnight
+  const zone = isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+  const today = getZonedDateParts(date, zone);
+  const endDay = new Date(Date.UTC(today.year, today.month - 1, today.day + (end > now ? 0 : 1)));
+  return zonedTimeToUtc(
+    endDay.getUTCFullYear(),
+    endDay.getUTCMonth() + 1,
+    endDay.getUTCDate(),
+    Math.floor(end / 60),
+    end % 60,
+    zone
+  );
+}
+
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Wall-clock date and time of an instant in the given time zone
+ */
+export function getZonedDateParts(date: Date, timeZone: string): ZonedDateParts {
+  const zone = isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: zone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    weekday: 'short',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const value = (type: string) => parts.find(part => part.type === type)?.value || '0';
+  return {
+    year: parseInt(value('year'), 10),
+    month: parseInt(value('month'), 10),
+    day: parseInt(value('day'), 10),
+    hour: parseInt(value('hour'), 10) % 24,
+    minute: parseInt(value('minute'), 10),
+    weekday: WEEKDAYS.indexOf(value('weekday')),
+  };
+}
+
+/**
+ * The instant a wall-clock time occurs in the given time zone. Times skipped by a
+ * DST jump resolve to the same offset as before the jump (02:30 becomes 03:30).
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const offsetAt = (instant: number) => {
+    const parts = getZonedDateParts(new Date(instant), timeZone);
+    return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute) - instant;
+  };
+
+  // Second pass picks up a DST change between the guess and the target
+  const firstGuess = wallClock - offsetAt(wallClock);
+  const secondGuess = wallClock - offsetAt(firstGuess);
+
+  const parts = getZonedDateParts(new Date(secondGuess), timeZone);
+  const matches = parts.hour === hour && parts.minute === minute && parts.day === day;
+  return new Date(matches ? secondGuess : firstGuess);
+}
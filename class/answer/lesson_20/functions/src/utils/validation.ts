@@ -104,6 +104,18 @@ export function sanitizeUserInput(input: string): string {
     .trim();
 }
 
+/**
+ * Escape text for HTML element content and quoted attributes, '&' included
+ */
+export function escapeHtml(input: string): string {
+  return input
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#x27;');
+}
+
 export function sanitizeHtml(input: string): string {
   // Basic HTML sanitization - remove all HTML tags
   return input.replace(/<[^>]*>/g, '').trim();